@@ -8,6 +8,7 @@ import { Trash2, Copy, Check, Plus } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface ApiKey {
     key_hash: string;
@@ -16,8 +17,15 @@ interface ApiKey {
     created_at: number;
     last_used_at?: number;
     is_active: number;
+    capture: number | null; // payload capture override; null follows the server default
 }
 
+const CAPTURE_OPTIONS = [
+    { value: "default", label: "Default" },
+    { value: "on", label: "On" },
+    { value: "off", label: "Off" },
+];
+
 interface NewKeyResponse {
     key: string;
     hash: string;
@@ -63,6 +71,17 @@ export function ApiKeysTab() {
         },
     });
 
+    // Payload Capture Mutation
+    const captureMutation = useMutation({
+        mutationFn: async ({ hash, value }: { hash: string; value: string }) => {
+            const capture = value === "default" ? null : value === "on";
+            await axios.patch("/api/keys", { hash, capture });
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+        },
+    });
+
     const handleCopy = () => {
         if (createdKey) {
             navigator.clipboard.writeText(createdKey.key);
@@ -104,17 +123,18 @@ export function ApiKeysTab() {
                             <TableHead>Prefix</TableHead>
                             <TableHead>Created</TableHead>
                             <TableHead>Last Used</TableHead>
+                            <TableHead>Capture</TableHead>
                             <TableHead className="text-right">Action</TableHead>
                         </TableRow>
                     </TableHeader>
                     <TableBody>
                         {isLoading ? (
                             <TableRow>
-                                <TableCell colSpan={5} className="text-center py-4">Loading keys...</TableCell>
+                                <TableCell colSpan={6} className="text-center py-4">Loading keys...</TableCell>
                             </TableRow>
                         ) : keys.length === 0 ? (
                             <TableRow>
-                                <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">No API keys found.</TableCell>
+                                <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">No API keys found.</TableCell>
                             </TableRow>
                         ) : (
                             keys.map((key) => (
@@ -125,6 +145,22 @@ export function ApiKeysTab() {
                                     <TableCell>
                                         {key.last_used_at ? new Date(key.last_used_at).toLocaleString() : "Never"}
                                     </TableCell>
+                                    <TableCell>
+                                        <Select
+                                            value={key.capture === null ? "default" : key.capture ? "on" : "off"}
+                                            onValueChange={(value) => captureMutation.mutate({ hash: key.key_hash, value })}
+                                            disabled={captureMutation.isPending}
+                                        >
+                                            <SelectTrigger className="w-[110px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {CAPTURE_OPTIONS.map((o) => (
+                                                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </TableCell>
                                     <TableCell className="text-right">
                                         <Button
                                             variant="ghost"
@@ -126,6 +126,23 @@ export function Dashboard({ onNavigate }: DashboardProps) {
                             </div>
                         </CardContent>
                     </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Wait Queue</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="space-y-2">
+                                {Object.entries(data?.queue ?? {}).map(([route, depth]) => (
+                                    <div key={route} className="flex items-center justify-between text-sm">
+                                        <span className="font-medium">{route}</span>
+                                        <Badge variant="secondary">{depth} waiting</Badge>
+                                    </div>
+                                ))}
+                                {!Object.keys(data?.queue ?? {}).length && <p className="text-sm text-muted-foreground">No requests waiting</p>}
+                            </div>
+                        </CardContent>
+                    </Card>
                 </div>
             </div>
         </div>
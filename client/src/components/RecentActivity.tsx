@@ -9,6 +9,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import type { RequestLog } from "@/lib/api";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useState } from "react";
+import { RequestDetailDialog } from "./RequestDetailDialog";
 
 interface RecentActivityProps {
     logs: RequestLog[];
@@ -17,6 +19,7 @@ interface RecentActivityProps {
 export function RecentActivity({ logs }: RecentActivityProps) {
     // Take last 50 logs and reverse logic should be in parent or here
     // Assuming parent passes active/recent logs
+    const [selected, setSelected] = useState<RequestLog | null>(null);
 
     return (
         <div className="rounded-md border">
@@ -41,7 +44,7 @@ export function RecentActivity({ logs }: RecentActivityProps) {
                             </TableRow>
                         ) : (
                             logs.map((log, i) => (
-                                <TableRow key={i}>
+                                <TableRow key={i} className="cursor-pointer" onClick={() => setSelected(log)}>
                                     <TableCell>
                                         <Badge variant={log.success ? "outline" : "destructive"} className={log.success ? "text-green-500 border-green-500/20 bg-green-500/10" : ""}>
                                             {log.success ? "200 OK" : "Error"}
@@ -68,6 +71,7 @@ export function RecentActivity({ logs }: RecentActivityProps) {
                     </TableBody>
                 </Table>
             </ScrollArea>
+            <RequestDetailDialog log={selected} onOpenChange={(open) => !open && setSelected(null)} />
         </div>
     );
 }
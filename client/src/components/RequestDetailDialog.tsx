@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { fetchCapture } from "@/lib/api";
+import type { RequestLog } from "@/lib/api";
+
+interface RequestDetailDialogProps {
+    log: RequestLog | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+function Payload({ title, value }: { title: string; value: unknown }) {
+    return (
+        <div className="space-y-1">
+            <h4 className="text-sm font-medium">{title}</h4>
+            <ScrollArea className="h-[200px] rounded-md border bg-muted/40">
+                <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-all">
+                    {typeof value === "string" ? value : JSON.stringify(value, null, 2)}
+                </pre>
+            </ScrollArea>
+        </div>
+    );
+}
+
+export function RequestDetailDialog({ log, onOpenChange }: RequestDetailDialogProps) {
+    const requestId = log?.requestId;
+    const { data: capture, isLoading, isError } = useQuery({
+        queryKey: ["capture", requestId],
+        queryFn: () => fetchCapture(requestId!),
+        enabled: !!requestId,
+    });
+
+    return (
+        <Dialog open={!!log} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Request Detail</DialogTitle>
+                    <DialogDescription className="font-mono text-xs">
+                        {requestId ?? "No request id"}
+                        {log?.clientRequestId && ` (client id ${log.clientRequestId})`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {log && (
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div className="text-muted-foreground">Time</div>
+                        <div>{new Date(log.timestamp).toLocaleString()}</div>
+                        <div className="text-muted-foreground">Provider / Model</div>
+                        <div>
+                            <Badge variant="secondary" className="font-mono text-xs mr-2">{log.provider}</Badge>
+                            {log.model}
+                        </div>
+                        <div className="text-muted-foreground">Tokens</div>
+                        <div className="font-mono text-xs">
+                            {log.promptTokens.toLocaleString()} in / {log.completionTokens.toLocaleString()} out
+                        </div>
+                        <div className="text-muted-foreground">Latency</div>
+                        <div className="font-mono text-xs">{log.latencyMs}ms</div>
+                        {log.error && (
+                            <>
+                                <div className="text-muted-foreground">Error</div>
+                                <div className="text-red-500 break-all">{log.error}</div>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {!requestId ? null : isLoading ? (
+                    <div className="flex items-center justify-center py-6 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading payload...
+                    </div>
+                ) : isError ? (
+                    <p className="text-sm text-red-500">Failed to load the captured payload.</p>
+                ) : !capture ? (
+                    <p className="text-sm text-muted-foreground">
+                        No payload captured. Enable capture in the config or for this API key.
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        {capture.truncated && (
+                            <Badge variant="outline" className="text-yellow-500 border-yellow-500/20 bg-yellow-500/10">
+                                Truncated at the size cap
+                            </Badge>
+                        )}
+                        <Payload title="Request" value={capture.request} />
+                        <Payload title={`Response (${capture.status})`} value={capture.response} />
+                        {capture.errors.length > 0 && <Payload title="Upstream Errors" value={capture.errors} />}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -44,6 +44,30 @@ export interface RequestLog {
     promptTokens: number;
     completionTokens: number;
     error?: string;
+    requestId?: string;
+    clientRequestId?: string;
+}
+
+export interface CaptureError {
+    provider: string;
+    model: string;
+    profileId: string;
+    status?: number;
+    reason?: string;
+    message: string;
+    upstreamError?: unknown;
+}
+
+export interface PayloadCapture {
+    requestId: string;
+    clientRequestId?: string;
+    timestamp: number;
+    client: string;
+    status: number;
+    request: unknown;
+    response: unknown;
+    errors: CaptureError[];
+    truncated: boolean;
 }
 
 export interface StatsSummary {
@@ -58,6 +82,8 @@ export interface DashboardData {
     summary: StatsSummary;
     requests: RequestLog[];
     activeProviders: string[]; // List of provider IDs that are currently active
+    queue?: Record<string, number>; // Requests waiting out a cooldown, by provider/model
+    inFlight?: Record<string, number>; // Requests running, by profile id
 }
 
 export interface ConfigData {
@@ -76,6 +102,17 @@ export const fetchConfig = async (): Promise<ConfigData> => {
     return data;
 };
 
+// Resolves to null when nothing was captured for the request
+export const fetchCapture = async (requestId: string): Promise<PayloadCapture | null> => {
+    try {
+        const { data } = await api.get<PayloadCapture>("/capture", { params: { requestId } });
+        return data;
+    } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+        throw err;
+    }
+};
+
 export const deleteProfile = async (id: string): Promise<void> => {
     await api.delete(`/profile?id=${encodeURIComponent(id)}`);
 };
@@ -8,6 +8,8 @@ export interface ApiKey {
     created_at: number;
     last_used_at?: number;
     is_active: number;
+    /** Payload capture override: null follows capture.enabled, 0/1 turn it off/on */
+    capture: number | null;
 }
 
 export interface NewKey {
@@ -35,6 +37,14 @@ export function generateKey(label: string): NewKey {
     return { key, hash, prefix, label, created_at: now };
 }
 
+/** The active key record, without touching last_used_at. */
+export function lookupKey(key: string): ApiKey | null {
+    if (!key.startsWith("sk-sr-")) return null;
+    const hash = createHash("sha256").update(key).digest("hex");
+    const stmt = db.prepare("SELECT * FROM api_keys WHERE key_hash = ? AND is_active = 1");
+    return (stmt.get(hash) as ApiKey | undefined) ?? null;
+}
+
 export function validateKey(key: string): ApiKey | null {
     if (!key.startsWith("sk-sr-")) return null;
 
@@ -60,6 +70,12 @@ export function listKeys(): ApiKey[] {
     return stmt.all() as ApiKey[];
 }
 
+/** Override payload capture for a key; null goes back to the config default. */
+export function setKeyCapture(hash: string, capture: boolean | null): boolean {
+    const stmt = db.prepare("UPDATE api_keys SET capture = ? WHERE key_hash = ?");
+    return stmt.run(capture === null ? null : capture ? 1 : 0, hash).changes > 0;
+}
+
 export function revokeKey(hash: string): void {
     const stmt = db.prepare("DELETE FROM api_keys WHERE key_hash = ?");
     stmt.run(hash);
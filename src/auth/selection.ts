@@ -0,0 +1,92 @@
+import type { ProfileCredential, ProfileUsageStats, SelectionStrategy } from "../shared/types.js";
+
+// ── Profile selection strategies ────────────────────────────────────
+// pickNextProfile filters a provider's profiles down to the usable ones
+// (not disabled, cooling down, rate limited or at their concurrency cap);
+// the provider's strategy then decides which of those goes first.
+
+export const SELECTION_STRATEGIES: SelectionStrategy[] = [
+    "least-in-flight",
+    "lru",
+    "weighted",
+    "least-errors",
+    "priority",
+];
+
+export const DEFAULT_STRATEGY: SelectionStrategy = "least-in-flight";
+
+export type SelectionCandidate = {
+    id: string;
+    cred: ProfileCredential;
+    stats: Partial<ProfileUsageStats>;
+    /** Requests in flight on the profile */
+    load: number;
+};
+
+// Failures older than this no longer count against a profile
+const RECENT_ERRORS_MS = 10 * 60_000;
+
+// Smooth weighted round-robin state, per profile (process-local)
+const currentWeights = new Map<string, number>();
+
+const byLastUsed = (a: SelectionCandidate, b: SelectionCandidate) =>
+    (a.stats.lastUsed ?? 0) - (b.stats.lastUsed ?? 0);
+
+const byLoad = (a: SelectionCandidate, b: SelectionCandidate) =>
+    a.load - b.load || byLastUsed(a, b);
+
+function recentErrors(c: SelectionCandidate, now: number): number {
+    const at = c.stats.lastFailureAt;
+    return at !== undefined && now - at < RECENT_ERRORS_MS ? c.stats.errorCount ?? 0 : 0;
+}
+
+function weightOf(c: SelectionCandidate): number {
+    const w = c.cred.weight;
+    return w !== undefined && w > 0 ? w : 1;
+}
+
+/**
+ * Profiles the strategy will choose from. Only "priority" narrows the pool
+ * (to its best tier), which also keeps session affinity from pinning a
+ * conversation to a backup once a primary is usable again.
+ */
+export function eligibleCandidates<T extends SelectionCandidate>(strategy: SelectionStrategy, available: T[]): T[] {
+    if (strategy !== "priority" || available.length === 0) return available;
+    const best = Math.min(...available.map((c) => c.cred.priority ?? 0));
+    return available.filter((c) => (c.cred.priority ?? 0) === best);
+}
+
+/** Pick the next profile from a non-empty set of usable candidates. */
+export function selectCandidate<T extends SelectionCandidate>(
+    strategy: SelectionStrategy,
+    available: T[],
+    now = Date.now(),
+): T {
+    const pool = [...eligibleCandidates(strategy, available)];
+
+    switch (strategy) {
+        case "lru":
+            return pool.sort(byLastUsed)[0]!;
+        case "least-errors":
+            return pool.sort((a, b) => recentErrors(a, now) - recentErrors(b, now) || byLoad(a, b))[0]!;
+        case "weighted": {
+            // Smooth weighted round-robin (as in nginx): every pick raises each
+            // candidate by its weight and lowers the winner by the total
+            let total = 0;
+            let picked = pool[0]!;
+            for (const c of pool) {
+                const w = weightOf(c);
+                total += w;
+                const current = (currentWeights.get(c.id) ?? 0) + w;
+                currentWeights.set(c.id, current);
+                if (current > currentWeights.get(picked.id)!) picked = c;
+            }
+            currentWeights.set(picked.id, currentWeights.get(picked.id)! - total);
+            return picked;
+        }
+        case "priority":
+        case "least-in-flight":
+        default:
+            return pool.sort(byLoad)[0]!;
+    }
+}
@@ -0,0 +1,128 @@
+import { randomBytes, createCipheriv, createDecipheriv, scryptSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { ProfileCredential } from "../shared/types.js";
+
+// ── Envelope encryption of auth profiles ────────────────────────────
+// A fresh random data key encrypts the profiles JSON on every write; the
+// data key is stored next to it, wrapped by a key derived (scrypt) from the
+// master secret. The master secret never touches the store file.
+
+export const MASTER_KEY_ENV = "SMART_ROUTER_MASTER_KEY";
+export const MASTER_KEY_FILE_ENV = "SMART_ROUTER_MASTER_KEY_FILE";
+
+export type EncryptedProfiles = {
+    alg: "aes-256-gcm";
+    kdf: "scrypt";
+    /** Salt for deriving the wrapping key from the master secret (base64) */
+    salt: string;
+    /** Data key sealed with the wrapping key */
+    wrappedKey: string;
+    /** Profiles JSON sealed with the data key */
+    data: string;
+};
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// scrypt is deliberately slow; the salt only changes on encrypt/rotate
+const derived = new Map<string, Buffer>();
+
+function wrappingKey(secret: string, salt: string): Buffer {
+    const cacheKey = `${salt}:${secret}`;
+    let key = derived.get(cacheKey);
+    if (!key) {
+        key = scryptSync(secret, Buffer.from(salt, "base64"), 32);
+        derived.set(cacheKey, key);
+    }
+    return key;
+}
+
+/** iv | tag | ciphertext, base64 */
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const body = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const raw = Buffer.from(sealed, "base64");
+    const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * The master secret from SMART_ROUTER_MASTER_KEY, or the contents of the
+ * file named by SMART_ROUTER_MASTER_KEY_FILE; null when neither is set.
+ */
+export function getMasterKey(): string | null {
+    const inline = process.env[MASTER_KEY_ENV]?.trim();
+    if (inline) return inline;
+
+    const file = process.env[MASTER_KEY_FILE_ENV];
+    if (!file) return null;
+    let secret: string;
+    try {
+        secret = readFileSync(file, "utf8").trim();
+    } catch (err: any) {
+        throw Object.assign(new Error(`Cannot read master key file ${file}: ${err?.message ?? err}`), {
+            reason: "master_key_unreadable",
+        });
+    }
+    if (!secret) {
+        throw Object.assign(new Error(`Master key file ${file} is empty`), { reason: "master_key_unreadable" });
+    }
+    return secret;
+}
+
+/** A random master secret suitable for a keyfile. */
+export function generateMasterKey(): string {
+    return randomBytes(32).toString("base64");
+}
+
+export function newKeySalt(): string {
+    return randomBytes(16).toString("base64");
+}
+
+export function encryptProfiles(
+    profiles: Record<string, ProfileCredential>,
+    secret: string,
+    salt: string,
+): EncryptedProfiles {
+    const dataKey = randomBytes(32);
+    return {
+        alg: "aes-256-gcm",
+        kdf: "scrypt",
+        salt,
+        wrappedKey: seal(wrappingKey(secret, salt), dataKey),
+        data: seal(dataKey, Buffer.from(JSON.stringify(profiles), "utf8")),
+    };
+}
+
+export function decryptProfiles(
+    envelope: EncryptedProfiles,
+    secret: string,
+): Record<string, ProfileCredential> {
+    if (envelope.alg !== "aes-256-gcm" || envelope.kdf !== "scrypt") {
+        throw Object.assign(new Error(`Unsupported auth store encryption: ${envelope.alg}/${envelope.kdf}`), {
+            reason: "unsupported_encryption",
+        });
+    }
+    let dataKey: Buffer;
+    try {
+        dataKey = open(wrappingKey(secret, envelope.salt), envelope.wrappedKey);
+    } catch {
+        throw Object.assign(new Error("Cannot decrypt auth profiles: wrong master key"), {
+            reason: "master_key_mismatch",
+        });
+    }
+    // The key unwrapped, so the data blob itself was damaged or altered
+    try {
+        return JSON.parse(open(dataKey, envelope.data).toString("utf8"));
+    } catch {
+        throw Object.assign(new Error("Cannot decrypt auth profiles: the encrypted data is corrupt or was modified"), {
+            reason: "store_corrupt",
+        });
+    }
+}
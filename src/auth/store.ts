@@ -1,13 +1,42 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import {
+    readFileSync,
+    writeFileSync,
+    mkdirSync,
+    existsSync,
+    statSync,
+    renameSync,
+    openSync,
+    writeSync,
+    closeSync,
+    unlinkSync,
+} from "node:fs";
 import { join, dirname } from "node:path";
 import type {
     AuthProfileStore,
     ProfileCredential,
     ProfileUsageStats,
     FailureReason,
+    RateLimits,
+    RateLimitWindow,
+    ProfileSettings,
+    SelectionStrategy,
 } from "../shared/types.js";
-import { logger } from "../shared/logger.js";
+import { createLogger } from "../shared/logger.js";
+import { observeProfileFailure } from "../shared/metrics.js";
 import { getProvider } from "../providers/index.js";
+import { getRoutingConfig } from "../router/config-store.js";
+import { DEFAULT_STRATEGY, eligibleCandidates, selectCandidate } from "./selection.js";
+import {
+    MASTER_KEY_ENV,
+    MASTER_KEY_FILE_ENV,
+    getMasterKey,
+    newKeySalt,
+    encryptProfiles,
+    decryptProfiles,
+} from "./store-crypto.js";
+import type { EncryptedProfiles } from "./store-crypto.js";
+
+const logger = createLogger("auth");
 
 // ── Store path ──────────────────────────────────────────────────────
 
@@ -22,42 +51,312 @@ function getStorePath(): string {
 }
 
 // ── Load / Save ─────────────────────────────────────────────────────
+// The store lives in memory and this process is its single writer: every
+// change is applied to the cached copy right away and queued for a
+// debounced flush. A flush takes the cross-process lock, re-reads the file
+// if someone else (e.g. the CLI) wrote it since we last synced, replays the
+// queued changes on top and writes the result atomically (temp + rename).
+
+type Mutation = (store: AuthProfileStore) => void;
+
+const FLUSH_DEBOUNCE_MS = 200;
+
+let cache: AuthProfileStore | null = null;
+let cachePath = "";
+// mtime/size of the file when we last read or wrote it
+let diskSignature = "";
+let pending: Mutation[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+type Encryption = { secret: string; salt: string };
+
+// How the file keeps its profiles: encrypted (see store-crypto.ts) or null
+// for plaintext. A requested change (encrypt/decrypt/rotate) waits in
+// `nextEncryption` until a flush has written it.
+let encryption: Encryption | null = null;
+let nextEncryption: Encryption | null | undefined;
+
+/** On-disk shape: `profiles` is replaced by `encryptedProfiles` when encrypted. */
+type AuthStoreFile = Omit<AuthProfileStore, "profiles"> & {
+    profiles?: Record<string, ProfileCredential>;
+    encryptedProfiles?: EncryptedProfiles;
+};
 
 function emptyStore(): AuthProfileStore {
     return { version: 1, profiles: {}, usageStats: {} };
 }
 
-export function loadStore(): AuthProfileStore {
-    const path = getStorePath();
+function fileSignature(path: string): string {
+    try {
+        const st = statSync(path);
+        return `${st.mtimeMs}:${st.size}`;
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * Parse the store file; null if it exists but can't be read. Throws when
+ * the profiles are encrypted and the master key is missing or wrong.
+ */
+function readStoreFile(path: string): AuthProfileStore | null {
     if (!existsSync(path)) {
         logger.info(`[AuthStore] No store found at ${path}, creating new.`);
+        encryption = null;
         return emptyStore();
     }
+    let data: AuthStoreFile;
     try {
-        const raw = readFileSync(path, "utf8");
-        const data = JSON.parse(raw) as AuthProfileStore;
-        return {
-            version: data.version ?? 1,
-            profiles: data.profiles ?? {},
-            usageStats: data.usageStats ?? {},
-        };
+        data = JSON.parse(readFileSync(path, "utf8")) as AuthStoreFile;
     } catch (err) {
         logger.error(`[AuthStore] Failed to load auth store from ${path}:`, err);
-        return emptyStore();
+        return null;
     }
+
+    let profiles = data.profiles ?? {};
+    encryption = null;
+    if (data.encryptedProfiles) {
+        const secret = getMasterKey();
+        if (!secret) {
+            throw Object.assign(
+                new Error(
+                    `${path} has encrypted profiles but no master key is configured. ` +
+                    `Set ${MASTER_KEY_ENV} or ${MASTER_KEY_FILE_ENV}.`
+                ),
+                { reason: "master_key_missing" },
+            );
+        }
+        profiles = decryptProfiles(data.encryptedProfiles, secret);
+        encryption = { secret, salt: data.encryptedProfiles.salt };
+    }
+
+    return {
+        version: data.version ?? 1,
+        profiles,
+        usageStats: data.usageStats ?? {},
+        strategies: data.strategies,
+    };
 }
 
-export function saveStore(store: AuthProfileStore): void {
+function serializeStore(store: AuthProfileStore, target: Encryption | null): string {
+    const { profiles, ...rest } = store;
+    const file: AuthStoreFile = target
+        ? { ...rest, encryptedProfiles: encryptProfiles(profiles, target.secret, target.salt) }
+        : store;
+    return JSON.stringify(file, null, 2) + "\n";
+}
+
+/** Fresh copy of the file with the changes this process hasn't flushed yet. */
+function readWithPending(path: string): AuthProfileStore | null {
+    const store = readStoreFile(path);
+    if (store) for (const mutate of pending) mutate(store);
+    return store;
+}
+
+/**
+ * The live store. Re-read when the file changed on disk since we last
+ * synced; treat the result as read-only and change it via updateStore.
+ */
+export function loadStore(): AuthProfileStore {
     const path = getStorePath();
-    const dir = dirname(path);
+    if (cache && cachePath !== path) flushStore();
+
+    const signature = fileSignature(path);
+    if (!cache || cachePath !== path || signature !== diskSignature) {
+        if (cachePath !== path) pending = [];
+        cache = readWithPending(path) ?? cache ?? emptyStore();
+        cachePath = path;
+        diskSignature = signature;
+    }
+    return cache;
+}
+
+/**
+ * Apply `mutate` to the store now and persist it with the next flush.
+ * It may be replayed on a newer copy of the file, so it must only depend
+ * on the store it's given (capture timestamps outside).
+ */
+export function updateStore(mutate: Mutation): void {
+    mutate(loadStore());
+    pending.push(mutate);
+    scheduleFlush();
+}
+
+/** Replace the whole store and write it out immediately. */
+export function saveStore(store: AuthProfileStore): void {
+    const snapshot = structuredClone(store);
+    updateStore((target) => {
+        const copy = structuredClone(snapshot);
+        target.version = copy.version;
+        target.profiles = copy.profiles;
+        target.usageStats = copy.usageStats;
+        target.strategies = copy.strategies;
+    });
+    flushStore();
+}
+
+function scheduleFlush(): void {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        // Don't block the event loop on a lock the CLI holds; try again later
+        writeStore(false);
+    }, FLUSH_DEBOUNCE_MS);
+    flushTimer.unref();
+}
+
+/**
+ * Write queued changes to disk now, waiting briefly for the lock. Returns
+ * false if they couldn't be written yet (lock busy, unreadable file); they
+ * stay queued.
+ */
+export function flushStore(): boolean {
+    return writeStore(true);
+}
+
+/**
+ * `waitForLock` spins for up to LOCK_TIMEOUT_MS, which is fine for the CLI
+ * and at exit; the scheduled flush makes a single attempt and reschedules.
+ */
+function writeStore(waitForLock: boolean): boolean {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    if (pending.length === 0 || !cache) return true;
+
+    const path = cachePath;
+    let release: (() => void) | null;
     try {
+        const dir = dirname(path);
         if (!existsSync(dir)) {
             mkdirSync(dir, { recursive: true });
         }
-        writeFileSync(path, JSON.stringify(store, null, 2) + "\n", "utf8");
+        release = acquireFileLock(`${path}.lock`, waitForLock ? LOCK_TIMEOUT_MS : 0);
+    } catch (err) {
+        // Called from the flush timer too, so never throw
+        logger.error(`[AuthStore] Failed to lock ${path}:`, err);
+        scheduleFlush();
+        return false;
+    }
+    if (!release) {
+        if (waitForLock) logger.warn(`[AuthStore] ${path} is locked by another process, retrying`);
+        else logger.debug(`[AuthStore] ${path} is locked, retrying in ${FLUSH_DEBOUNCE_MS}ms`);
+        scheduleFlush();
+        return false;
+    }
+    try {
+        // Another process wrote since we last synced: build on its version
+        if (fileSignature(path) !== diskSignature) {
+            const fresh = readWithPending(path);
+            if (!fresh) {
+                scheduleFlush();
+                return false;
+            }
+            cache = fresh;
+        }
+        const target = nextEncryption !== undefined ? nextEncryption : encryption;
+        const tmp = `${path}.${process.pid}.tmp`;
+        writeFileSync(tmp, serializeStore(cache, target), "utf8");
+        renameSync(tmp, path);
+        diskSignature = fileSignature(path);
+        pending = [];
+        encryption = target;
+        nextEncryption = undefined;
+        return true;
     } catch (err) {
         logger.error(`[AuthStore] Failed to save auth store to ${path}:`, err);
-        throw err;
+        scheduleFlush();
+        return false;
+    } finally {
+        release();
+    }
+}
+
+// Short-lived CLI commands exit before the debounce fires
+process.once("exit", () => {
+    flushStore();
+});
+
+// ── Encryption at rest ──────────────────────────────────────────────
+
+export function isStoreEncrypted(): boolean {
+    loadStore();
+    return (nextEncryption !== undefined ? nextEncryption : encryption) !== null;
+}
+
+/** Rewrite the file now with the requested encryption; throws if it can't. */
+function rewriteStore(target: Encryption | null): void {
+    loadStore();
+    nextEncryption = target;
+    pending.push(() => { });
+    if (!flushStore()) {
+        nextEncryption = undefined;
+        throw new Error(`Could not write ${cachePath}; see the log above`);
+    }
+}
+
+/** Encrypt the profiles with the configured master key (or store them in plaintext again). */
+export function setStoreEncryption(enabled: boolean): void {
+    if (!enabled) {
+        rewriteStore(null);
+        return;
+    }
+    const secret = getMasterKey();
+    if (!secret) {
+        throw new Error(`No master key configured. Set ${MASTER_KEY_ENV} or ${MASTER_KEY_FILE_ENV}.`);
+    }
+    rewriteStore({ secret, salt: newKeySalt() });
+}
+
+/** Re-encrypt the profiles under `newSecret`; the old key must still be configured to read them. */
+export function rotateStoreKey(newSecret: string): void {
+    if (!isStoreEncrypted()) {
+        throw new Error("The auth store is not encrypted; run `store encrypt` first");
+    }
+    rewriteStore({ secret: newSecret, salt: newKeySalt() });
+}
+
+// ── File lock ───────────────────────────────────────────────────────
+// An exclusive-create lock file shared by the server and the CLI. A lock
+// older than LOCK_STALE_MS is assumed to belong to a crashed process.
+
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10_000;
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+/** The lock's release function, or null if it is still held after `timeoutMs` (0: a single attempt). */
+function acquireFileLock(lockPath: string, timeoutMs: number): (() => void) | null {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+        try {
+            const fd = openSync(lockPath, "wx");
+            writeSync(fd, `${process.pid}\n`);
+            closeSync(fd);
+            return () => {
+                try {
+                    unlinkSync(lockPath);
+                } catch {
+                    // already gone
+                }
+            };
+        } catch (err: any) {
+            if (err?.code !== "EEXIST") throw err;
+        }
+
+        try {
+            if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+                unlinkSync(lockPath);
+                continue;
+            }
+        } catch {
+            continue; // released between our attempts
+        }
+
+        if (Date.now() >= deadline) return null;
+        Atomics.wait(sleepCell, 0, 0, LOCK_RETRY_MS);
     }
 }
 
@@ -72,21 +371,45 @@ export function upsertProfile(
     credential: ProfileCredential,
     label?: string,
 ): string {
-    const store = loadStore();
     const profileId = buildProfileId(provider, label);
-    store.profiles[profileId] = credential;
-    store.usageStats[profileId] = { state: "ACTIVE", errorCount: 0 };
-    saveStore(store);
+    updateStore((store) => {
+        // Keep the profile's settings across a re-login or token refresh
+        const previous = store.profiles[profileId];
+        store.profiles[profileId] = {
+            rateLimits: previous?.rateLimits,
+            weight: previous?.weight,
+            priority: previous?.priority,
+            ...credential,
+        };
+        store.usageStats[profileId] = { state: "ACTIVE", errorCount: 0 };
+    });
     logger.ok(`Auth profile saved: ${profileId}`);
     return profileId;
 }
 
+/**
+ * Swap in a refreshed credential, keeping the profile's settings and usage
+ * stats (unlike upsertProfile, which starts it over as a fresh login).
+ */
+export function updateProfileCredential(profileId: string, credential: ProfileCredential): void {
+    updateStore((store) => {
+        const previous = store.profiles[profileId];
+        if (!previous) return;
+        store.profiles[profileId] = {
+            rateLimits: previous.rateLimits,
+            weight: previous.weight,
+            priority: previous.priority,
+            ...credential,
+        };
+    });
+}
+
 export function removeProfile(profileId: string): boolean {
-    const store = loadStore();
-    if (!store.profiles[profileId]) return false;
-    delete store.profiles[profileId];
-    delete store.usageStats[profileId];
-    saveStore(store);
+    if (!loadStore().profiles[profileId]) return false;
+    updateStore((store) => {
+        delete store.profiles[profileId];
+        delete store.usageStats[profileId];
+    });
     logger.info(`Removed profile: ${profileId}`);
     return true;
 }
@@ -158,9 +481,115 @@ export function getAvailableProviders(): Set<string> {
     return providers;
 }
 
-// ── Round-robin profile selection ───────────────────────────────────
+// ── Rate limit windows ──────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * 60_000;
 
-export function pickNextProfile(provider: string, modelId?: string): {
+/** Provider defaults with the profile's own overrides applied on top. */
+export function getEffectiveRateLimits(cred: ProfileCredential): RateLimits {
+    return { ...getProvider(cred.provider)?.rateLimits, ...cred.rateLimits };
+}
+
+/** When `window` frees up for one more request of `requestTokens`, or 0 if it already has room. */
+function windowReadyAt(
+    window: RateLimitWindow | undefined,
+    lengthMs: number,
+    maxRequests: number | undefined,
+    maxTokens: number | undefined,
+    requestTokens: number,
+    now: number,
+): number {
+    if (!window || now - window.windowStart >= lengthMs) return 0;
+    const tokens = window.tokenCount ?? 0;
+    const full = (maxRequests !== undefined && window.requestCount >= maxRequests)
+        // An empty window always admits one request, however large
+        || (maxTokens !== undefined && tokens > 0 && tokens + requestTokens > maxTokens);
+    return full ? window.windowStart + lengthMs : 0;
+}
+
+/**
+ * Earliest time the profile can take a request of `requestTokens` prompt
+ * tokens for `modelId`: cooldowns plus the RPM/TPM and RPD/TPD windows.
+ */
+export function profileReadyAt(
+    stats: Partial<ProfileUsageStats>,
+    limits: RateLimits,
+    modelId?: string,
+    requestTokens = 0,
+    now = Date.now(),
+): number {
+    let readyAt = stats.cooldownUntil ?? 0;
+    if (modelId && stats.modelCooldowns?.[modelId]) {
+        readyAt = Math.max(readyAt, stats.modelCooldowns[modelId]);
+    }
+    readyAt = Math.max(
+        readyAt,
+        windowReadyAt(stats.rateLimitStats, MINUTE_MS, limits.requestsPerMinute, limits.tokensPerMinute, requestTokens, now),
+        windowReadyAt(stats.dailyStats, DAY_MS, limits.requestsPerDay, limits.tokensPerDay, requestTokens, now),
+    );
+    return readyAt;
+}
+
+// ── In-flight tracking ──────────────────────────────────────────────
+// Process-local: counts requests currently running on each profile, so a
+// burst is spread across accounts before any of them has finished.
+
+const inFlight = new Map<string, number>();
+
+/** Count a request as running on `profileId`; call the returned fn when it ends. */
+export function acquireProfileSlot(profileId: string): () => void {
+    inFlight.set(profileId, (inFlight.get(profileId) ?? 0) + 1);
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        const n = (inFlight.get(profileId) ?? 1) - 1;
+        if (n > 0) inFlight.set(profileId, n);
+        else inFlight.delete(profileId);
+    };
+}
+
+export function getInFlight(profileId: string): number {
+    return inFlight.get(profileId) ?? 0;
+}
+
+/** Profiles with requests running, and how many. */
+export function getInFlightCounts(): Record<string, number> {
+    return Object.fromEntries(inFlight);
+}
+
+/** Running requests summed per provider; profile ids (often emails) left out. */
+export function getInFlightByProvider(): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const [profileId, n] of inFlight) {
+        const provider = profileId.split(":")[0];
+        totals[provider] = (totals[provider] ?? 0) + n;
+    }
+    return totals;
+}
+
+/**
+ * Cap on concurrent requests for a profile: its own `maxConcurrent`, else
+ * the routing config's provider override, the provider's built-in limit,
+ * then the routing config default. 0 = no cap.
+ */
+export function getMaxConcurrent(cred: ProfileCredential): number {
+    const { concurrency } = getRoutingConfig();
+    return cred.rateLimits?.maxConcurrent
+        ?? concurrency.providers[cred.provider]
+        ?? getProvider(cred.provider)?.rateLimits?.maxConcurrent
+        ?? concurrency.maxConcurrent;
+}
+
+// ── Profile selection ───────────────────────────────────────────────
+
+export function pickNextProfile(
+    provider: string,
+    modelId?: string,
+    preferredProfileId?: string,
+    requestTokens = 0,
+): {
     profileId: string;
     credential: ProfileCredential;
 } | null {
@@ -171,48 +600,56 @@ export function pickNextProfile(provider: string, modelId?: string): {
         .filter(([, cred]) => cred.provider === provider)
         .map(([id, cred]) => {
             const stats = store.usageStats[id] ?? {};
-            return { id, cred, stats };
+            return { id, cred, stats, load: getInFlight(id) };
         });
 
     if (candidates.length === 0) return null;
 
     const available = candidates.filter((c) => {
-        const stats = c.stats as ProfileUsageStats;
-        if (stats.state === "DISABLED") return false;
+        if (c.stats.state === "DISABLED") return false;
+        const maxConcurrent = getMaxConcurrent(c.cred);
+        if (maxConcurrent > 0 && c.load >= maxConcurrent) return false;
+        const limits = getEffectiveRateLimits(c.cred);
+        return profileReadyAt(c.stats, limits, modelId, requestTokens, now) <= now;
+    });
 
-        const until = stats.cooldownUntil ?? 0;
-        if (now < until) return false;
+    if (available.length === 0) {
+        return null;
+    }
 
-        if (modelId && stats.modelCooldowns?.[modelId]) {
-            if (now < stats.modelCooldowns[modelId]) return false;
-        }
+    const strategy = store.strategies?.[provider] ?? DEFAULT_STRATEGY;
 
-        if (modelId && stats.modelCooldowns?.[modelId]) {
-            if (now < stats.modelCooldowns[modelId]) return false;
-        }
+    // Session affinity: keep a conversation on its profile while it's usable
+    const preferred = preferredProfileId
+        ? eligibleCandidates(strategy, available).find((c) => c.id === preferredProfileId)
+        : undefined;
+    if (preferred) return { profileId: preferred.id, credential: preferred.cred };
 
-        const providerDef = getProvider(provider);
-        const rpmLimit = providerDef?.rateLimits?.requestsPerMinute;
-        if (rpmLimit && stats.rateLimitStats) {
-            const { windowStart, requestCount } = stats.rateLimitStats;
-            const windowElapsed = now - windowStart;
+    const picked = selectCandidate(strategy, available, now);
 
-            if (windowElapsed < 60000 && requestCount >= rpmLimit) {
-                return false;
-            }
-        }
+    return { profileId: picked.id, credential: picked.cred };
+}
 
-        return true;
-    });
+/**
+ * Earliest time a profile of `provider` becomes selectable for `modelId`
+ * again (same checks as pickNextProfile), or null when it has no enabled
+ * profiles to wait for.
+ */
+export function getProfileReadyAt(provider: string, modelId?: string, requestTokens = 0): number | null {
+    const store = loadStore();
+    const now = Date.now();
+    let earliest: number | null = null;
 
-    if (available.length === 0) {
-        return null;
-    }
+    for (const [id, cred] of Object.entries(store.profiles)) {
+        if (cred.provider !== provider) continue;
+        const stats = store.usageStats[id] ?? {};
+        if (stats.state === "DISABLED") continue;
 
-    available.sort((a, b) => (a.stats.lastUsed ?? 0) - (b.stats.lastUsed ?? 0));
-    const picked = available[0]!;
+        const readyAt = profileReadyAt(stats, getEffectiveRateLimits(cred), modelId, requestTokens, now);
+        if (earliest === null || readyAt < earliest) earliest = readyAt;
+    }
 
-    return { profileId: picked.id, credential: picked.cred };
+    return earliest;
 }
 
 export function getApiKeyForProvider(provider: string): string | null {
@@ -235,38 +672,73 @@ export function getApiKeyForProvider(provider: string): string | null {
 // ── Usage tracking ──────────────────────────────────────────────────
 
 export function markProfileUsed(profileId: string): void {
-    const store = loadStore();
-    store.usageStats[profileId] = {
-        ...store.usageStats[profileId],
-        state: "ACTIVE",
-        lastUsed: Date.now(),
-        errorCount: 0,
-        cooldownUntil: undefined,
-        failureReason: undefined,
-    } as ProfileUsageStats;
-    saveStore(store);
-}
-
-export function incrementProfileUsage(profileId: string, providerId: string): void {
-    const store = loadStore();
     const now = Date.now();
-    const existing = store.usageStats[profileId] ?? { state: "ACTIVE" };
+    updateStore((store) => {
+        store.usageStats[profileId] = {
+            ...store.usageStats[profileId],
+            state: "ACTIVE",
+            lastUsed: now,
+            errorCount: 0,
+            cooldownUntil: undefined,
+            failureReason: undefined,
+        } as ProfileUsageStats;
+    });
+}
 
-    let stats = existing.rateLimitStats;
+/** Count a completed request (and its tokens) against the profile's rate limit windows. */
+export function incrementProfileUsage(profileId: string, providerId: string, tokens = 0): void {
+    const now = Date.now();
 
-    if (!stats || (now - stats.windowStart) >= 60000) {
-        stats = { windowStart: now, requestCount: 0 };
-    }
+    const bump = (window: RateLimitWindow | undefined, lengthMs: number): RateLimitWindow => {
+        if (!window || (now - window.windowStart) >= lengthMs) {
+            window = { windowStart: now, requestCount: 0, tokenCount: 0 };
+        }
+        return {
+            ...window,
+            requestCount: window.requestCount + 1,
+            tokenCount: (window.tokenCount ?? 0) + tokens,
+        };
+    };
 
-    stats.requestCount++;
+    updateStore((store) => {
+        const existing = store.usageStats[profileId] ?? { state: "ACTIVE" };
+        store.usageStats[profileId] = {
+            ...existing,
+            lastUsed: now,
+            rateLimitStats: bump(existing.rateLimitStats, MINUTE_MS),
+            dailyStats: bump(existing.dailyStats, DAY_MS),
+        } as ProfileUsageStats;
+    });
+}
 
-    store.usageStats[profileId] = {
-        ...existing,
-        lastUsed: now,
-        rateLimitStats: stats,
-    } as ProfileUsageStats;
+/**
+ * Update the profile's selection settings; `undefined` fields are left
+ * alone, `null` clears one. Returns false if the profile doesn't exist.
+ */
+export function setProfileSettings(
+    profileId: string,
+    settings: { [K in keyof ProfileSettings]?: ProfileSettings[K] | null },
+): boolean {
+    if (!loadStore().profiles[profileId]) return false;
+    updateStore((store) => {
+        const cred = store.profiles[profileId] as (ProfileCredential & Record<string, unknown>) | undefined;
+        if (!cred) return;
+        for (const [key, value] of Object.entries(settings)) {
+            if (value === null) delete cred[key];
+            else if (value !== undefined) cred[key] = value;
+        }
+    });
+    return true;
+}
 
-    saveStore(store);
+/** Set the provider's selection strategy, or reset it to the default (`null`). */
+export function setSelectionStrategy(provider: string, strategy: SelectionStrategy | null): void {
+    updateStore((store) => {
+        const strategies = { ...store.strategies };
+        if (strategy) strategies[provider] = strategy;
+        else delete strategies[provider];
+        store.strategies = Object.keys(strategies).length > 0 ? strategies : undefined;
+    });
 }
 
 function calculateCooldownMs(errorCount: number): number {
@@ -287,32 +759,32 @@ export function markProfileFailure(
     explicitCooldownMs?: number,
     modelId?: string,
 ): void {
-    const store = loadStore();
-    const existing = store.usageStats[profileId] ?? {};
+    const now = Date.now();
+    const provider = loadStore().profiles[profileId]?.provider ?? profileId.split(":")[0]!;
+    observeProfileFailure(provider, profileId, reason);
 
     // For model-specific failures, only apply model-level cooldown
     // Do NOT increment global errorCount or set global cooldownUntil
     const isModelSpecific = modelId && (reason === "rate_limit" || reason === "model_not_found");
 
-    const modelCooldowns = existing.modelCooldowns ?? {};
-
     if (isModelSpecific) {
         // Model-specific cooldown only — don't touch global state
         let cooldownMs = explicitCooldownMs ?? 60_000; // Default 60s for model-specific
         if (profileId.startsWith("antigravity") && !explicitCooldownMs && reason === "rate_limit") {
             cooldownMs = 5 * 60 * 1000; // 5 min for Antigravity rate limits
         }
-        modelCooldowns[modelId] = Date.now() + cooldownMs;
 
-        store.usageStats[profileId] = {
-            ...existing,
-            // Keep state and errorCount UNCHANGED — this is model-specific, not profile-wide
-            state: existing.state === "DISABLED" ? "DISABLED" : (existing.state ?? "ACTIVE"),
-            modelCooldowns,
-            lastFailureAt: Date.now(),
-            failureReason: reason,
-        } as ProfileUsageStats;
-        saveStore(store);
+        updateStore((store) => {
+            const existing = store.usageStats[profileId] ?? {};
+            store.usageStats[profileId] = {
+                ...existing,
+                // Keep state and errorCount UNCHANGED — this is model-specific, not profile-wide
+                state: existing.state === "DISABLED" ? "DISABLED" : (existing.state ?? "ACTIVE"),
+                modelCooldowns: { ...existing.modelCooldowns, [modelId]: now + cooldownMs },
+                lastFailureAt: now,
+                failureReason: reason,
+            } as ProfileUsageStats;
+        });
 
         logger.warn(
             `Profile ${profileId} (model ${modelId}) failed (${reason}), cooldown ${Math.round(cooldownMs / 1000)}s`,
@@ -320,31 +792,32 @@ export function markProfileFailure(
         return;
     }
 
-    // Global failure — increment errorCount and apply profile-level cooldown
-    const errorCount = (existing.errorCount ?? 0) + 1;
-    let cooldownMs = explicitCooldownMs ?? calculateCooldownMs(errorCount);
-
-    if (profileId.startsWith("antigravity") && !explicitCooldownMs && reason === "rate_limit") {
-        cooldownMs = 5 * 60 * 60 * 1000;
-    }
-
-    const cooldownUntil = Date.now() + cooldownMs;
-
     let newState: "COOLDOWN" | "DISABLED" | "ACTIVE" = "COOLDOWN";
     if (reason === "auth" || reason === "billing") {
         newState = "DISABLED";
     }
 
-    store.usageStats[profileId] = {
-        ...existing,
-        state: newState,
-        errorCount,
-        cooldownUntil,
-        modelCooldowns,
-        lastFailureAt: Date.now(),
-        failureReason: reason,
-    } as ProfileUsageStats;
-    saveStore(store);
+    // Global failure — increment errorCount and apply profile-level cooldown
+    let cooldownMs = 0;
+    updateStore((store) => {
+        const existing = store.usageStats[profileId] ?? {};
+        const errorCount = (existing.errorCount ?? 0) + 1;
+        cooldownMs = explicitCooldownMs ?? calculateCooldownMs(errorCount);
+
+        if (profileId.startsWith("antigravity") && !explicitCooldownMs && reason === "rate_limit") {
+            cooldownMs = 5 * 60 * 60 * 1000;
+        }
+
+        store.usageStats[profileId] = {
+            ...existing,
+            state: newState,
+            errorCount,
+            cooldownUntil: now + cooldownMs,
+            modelCooldowns: existing.modelCooldowns ?? {},
+            lastFailureAt: now,
+            failureReason: reason,
+        } as ProfileUsageStats;
+    });
 
     const target = "profile";
     logger.warn(
@@ -353,8 +826,8 @@ export function markProfileFailure(
 }
 
 export function clearProfileCooldown(profileId: string): void {
-    const store = loadStore();
-    if (store.usageStats[profileId]) {
+    updateStore((store) => {
+        if (!store.usageStats[profileId]) return;
         store.usageStats[profileId] = {
             ...store.usageStats[profileId],
             state: "ACTIVE",
@@ -362,6 +835,5 @@ export function clearProfileCooldown(profileId: string): void {
             cooldownUntil: undefined,
             failureReason: undefined,
         } as ProfileUsageStats;
-        saveStore(store);
-    }
+    });
 }
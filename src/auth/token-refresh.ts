@@ -0,0 +1,89 @@
+import type { OAuthCredential, ProfileCredential } from "../shared/types.js";
+import { getProvider } from "../providers/index.js";
+import { createLogger } from "../shared/logger.js";
+import { withSpan } from "../shared/tracing.js";
+import { loadStore, updateProfileCredential, markProfileFailure } from "./store.js";
+
+const logger = createLogger("auth");
+
+// ── Background OAuth refresh ────────────────────────────────────────
+// Access tokens are refreshed shortly before they expire, off the request
+// path. Each profile has at most one refresh in flight; anyone who needs
+// the token meanwhile joins it instead of starting another.
+
+/** Refresh tokens that expire within this window */
+export const REFRESH_LEAD_MS = 5 * 60_000;
+const CHECK_INTERVAL_MS = 60_000;
+
+const refreshing = new Map<string, Promise<OAuthCredential>>();
+
+/** OAuth credential of a provider that can refresh it, expiring within `leadMs`. */
+export function needsRefresh(
+    cred: ProfileCredential,
+    now = Date.now(),
+    leadMs = REFRESH_LEAD_MS,
+): cred is OAuthCredential {
+    return cred.type === "oauth"
+        && !!cred.expires
+        && cred.expires - now <= leadMs
+        && !!getProvider(cred.provider)?.refreshToken;
+}
+
+/**
+ * Refresh the profile's token, joining a refresh already in flight. A
+ * revoked refresh token disables the profile (reason "auth") until the
+ * user logs in again.
+ */
+export function refreshProfile(profileId: string): Promise<OAuthCredential> {
+    let pending = refreshing.get(profileId);
+    if (!pending) {
+        pending = runRefresh(profileId).finally(() => refreshing.delete(profileId));
+        refreshing.set(profileId, pending);
+    }
+    return pending;
+}
+
+async function runRefresh(profileId: string): Promise<OAuthCredential> {
+    const cred = loadStore().profiles[profileId];
+    const provider = cred ? getProvider(cred.provider) : undefined;
+    if (cred?.type !== "oauth" || !provider?.refreshToken) {
+        throw new Error(`Profile ${profileId} has no refreshable OAuth token`);
+    }
+
+    logger.info(`Refreshing token for ${profileId}...`);
+    try {
+        const attributes = { "smart_router.provider": cred.provider, "smart_router.profile": profileId };
+        const refreshed = await withSpan("auth.token_refresh", { attributes }, () => provider.refreshToken!(cred));
+        updateProfileCredential(profileId, refreshed);
+        return refreshed;
+    } catch (err: any) {
+        if (err?.revoked) {
+            logger.error(`Refresh token for ${profileId} was revoked; log in again to re-enable it`);
+            markProfileFailure(profileId, "auth");
+        } else {
+            logger.warn(`Token refresh failed for ${profileId}: ${err?.message ?? err}`);
+        }
+        throw err;
+    }
+}
+
+/** Refresh every enabled OAuth profile that is about to expire. */
+export async function refreshExpiringTokens(now = Date.now()): Promise<void> {
+    const store = loadStore();
+    const due = Object.entries(store.profiles)
+        .filter(([id, cred]) => store.usageStats[id]?.state !== "DISABLED" && needsRefresh(cred, now))
+        .map(([id]) => refreshProfile(id));
+    // Failures are logged in runRefresh and retried on the next check
+    await Promise.allSettled(due);
+}
+
+/** Check for expiring tokens now and every `intervalMs`; returns a stop function. */
+export function startTokenRefresher(intervalMs = CHECK_INTERVAL_MS): () => void {
+    const check = () => {
+        refreshExpiringTokens().catch((err) => logger.error("Token refresh check failed:", err));
+    };
+    check();
+    const timer = setInterval(check, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+}
@@ -1,6 +1,7 @@
 import "dotenv/config";
 import { exec } from "node:child_process";
-import { logger } from "./shared/logger.js";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createLogger, setLogFormat } from "./shared/logger.js";
 import { startProxy } from "./server/index.js";
 import { getProvider, getAllProviders } from "./providers/index.js";
 import {
@@ -9,13 +10,26 @@ import {
     listAllProfiles,
     getAvailableProviders,
     buildProfileId,
+    setProfileSettings,
+    setSelectionStrategy,
+    isStoreEncrypted,
+    setStoreEncryption,
+    rotateStoreKey,
 } from "./auth/store.js";
+import { MASTER_KEY_ENV, MASTER_KEY_FILE_ENV, generateMasterKey } from "./auth/store-crypto.js";
+import { SELECTION_STRATEGIES } from "./auth/selection.js";
 import { classifyByRules } from "./router/index.js";
 import { selectModel } from "./router/selector.js";
-import { getStatsSummary } from "./storage/stats.js";
-import type { LoginContext } from "./shared/types.js";
+import { getStatsSummary, getRequestAttempts } from "./storage/stats.js";
+import { getCapture } from "./storage/captures.js";
+import { replayCapture } from "./server/replay.js";
+import { calculateCost } from "./server/helpers.js";
+import type { RequestStats } from "./shared/types.js";
+import type { LoginContext, RateLimits, SelectionStrategy } from "./shared/types.js";
 import { createInterface } from "node:readline";
 
+const logger = createLogger("cli");
+
 // ── CLI arg parsing ─────────────────────────────────────────────────
 
 const args = process.argv.slice(2);
@@ -64,7 +78,20 @@ function createCliLoginContext(): LoginContext {
 
 async function cmdStart() {
     const port = Number(getFlag("--port") || process.env.SMART_ROUTER_PORT || 3402);
-    startProxy(port);
+    const logFormat = getFlag("--log-format");
+    if (logFormat) {
+        if (logFormat !== "text" && logFormat !== "json") {
+            logger.error(`Unknown log format: ${logFormat} (use text or json)`);
+            process.exit(1);
+        }
+        setLogFormat(logFormat);
+    }
+    try {
+        startProxy(port);
+    } catch (err: any) {
+        logger.error(`Cannot start: ${err?.message ?? err}`);
+        process.exit(1);
+    }
 }
 
 async function cmdLogin() {
@@ -118,6 +145,21 @@ async function cmdAccounts() {
         return;
     }
 
+    if (subCommand === "limits") {
+        cmdAccountLimits(args[2]);
+        return;
+    }
+
+    if (subCommand === "set") {
+        cmdAccountSet(args[2]);
+        return;
+    }
+
+    if (subCommand === "strategy") {
+        cmdAccountStrategy(args[2], args[3]);
+        return;
+    }
+
     const profiles = listAllProfiles();
     if (profiles.length === 0) {
         console.log("\n\x1b[33mNo accounts configured.\x1b[0m");
@@ -154,6 +196,138 @@ async function cmdAccounts() {
     console.log();
 }
 
+const LIMIT_FLAGS: Record<string, keyof RateLimits> = {
+    "--rpm": "requestsPerMinute",
+    "--rpd": "requestsPerDay",
+    "--tpm": "tokensPerMinute",
+    "--tpd": "tokensPerDay",
+    "--concurrent": "maxConcurrent",
+};
+
+function cmdAccountLimits(profileId: string | undefined) {
+    if (!profileId) {
+        console.log("Usage: openroutex accounts limits <profileId> [--rpm <n>] [--rpd <n>] [--tpm <n>] [--tpd <n>] [--concurrent <n>] | --clear");
+        return;
+    }
+
+    let limits: RateLimits | null = null;
+    if (!args.includes("--clear")) {
+        limits = {};
+        for (const [flag, field] of Object.entries(LIMIT_FLAGS)) {
+            const value = getFlag(flag);
+            if (value === undefined) continue;
+            const n = Number(value);
+            if (!Number.isInteger(n) || n <= 0) {
+                logger.error(`${flag} must be a positive integer`);
+                return;
+            }
+            limits[field] = n;
+        }
+        if (Object.keys(limits).length === 0) {
+            logger.error("Pass at least one of --rpm, --rpd, --tpm, --tpd, --concurrent (or --clear)");
+            return;
+        }
+    }
+
+    if (!setProfileSettings(profileId, { rateLimits: limits })) {
+        logger.error(`Profile not found: ${profileId}`);
+        return;
+    }
+    logger.ok(limits
+        ? `Rate limits for ${profileId}: ${Object.entries(limits).map(([k, v]) => `${k}=${v}`).join(", ")}`
+        : `Cleared rate limits for ${profileId} (provider defaults apply)`);
+}
+
+function cmdAccountSet(profileId: string | undefined) {
+    const weight = getFlag("--weight");
+    const priority = getFlag("--priority");
+    if (!profileId || (weight === undefined && priority === undefined)) {
+        console.log("Usage: openroutex accounts set <profileId> [--weight <n>] [--priority <n>]");
+        return;
+    }
+
+    const w = weight === undefined ? undefined : Number(weight);
+    if (w !== undefined && !(w > 0)) {
+        logger.error("--weight must be a positive number");
+        return;
+    }
+    const p = priority === undefined ? undefined : Number(priority);
+    if (p !== undefined && !Number.isInteger(p)) {
+        logger.error("--priority must be an integer");
+        return;
+    }
+
+    if (!setProfileSettings(profileId, { weight: w, priority: p })) {
+        logger.error(`Profile not found: ${profileId}`);
+        return;
+    }
+    const applied = [w !== undefined && `weight=${w}`, p !== undefined && `priority=${p}`].filter(Boolean);
+    logger.ok(`Updated ${profileId}: ${applied.join(", ")}`);
+}
+
+function cmdAccountStrategy(providerId: string | undefined, strategy: string | undefined) {
+    if (!providerId || !strategy) {
+        console.log(`Usage: openroutex accounts strategy <provider> <${SELECTION_STRATEGIES.join("|")}|default>`);
+        return;
+    }
+    if (strategy === "default") {
+        setSelectionStrategy(providerId, null);
+        logger.ok(`${providerId} uses the default selection strategy`);
+        return;
+    }
+    if (!SELECTION_STRATEGIES.includes(strategy as SelectionStrategy)) {
+        logger.error(`Unknown strategy: ${strategy} (expected ${SELECTION_STRATEGIES.join(", ")})`);
+        return;
+    }
+    setSelectionStrategy(providerId, strategy as SelectionStrategy);
+    logger.ok(`${providerId} profiles are now selected by ${strategy}`);
+}
+
+async function cmdStore() {
+    try {
+        switch (subCommand) {
+            case "encrypt":
+                setStoreEncryption(true);
+                logger.ok("Auth profiles are now encrypted at rest");
+                break;
+            case "decrypt":
+                setStoreEncryption(false);
+                logger.ok("Auth profiles are now stored in plaintext");
+                break;
+            case "rotate-key": {
+                const keyFile = getFlag("--new-key-file");
+                if (!keyFile) {
+                    console.log("Usage: openroutex store rotate-key --new-key-file <path>");
+                    return;
+                }
+                let newKey: string;
+                if (existsSync(keyFile)) {
+                    newKey = readFileSync(keyFile, "utf8").trim();
+                } else {
+                    newKey = generateMasterKey();
+                    writeFileSync(keyFile, newKey + "\n", { mode: 0o600 });
+                    logger.info(`Generated a new master key in ${keyFile}`);
+                }
+                if (!newKey) {
+                    logger.error(`${keyFile} is empty`);
+                    return;
+                }
+                rotateStoreKey(newKey);
+                logger.ok("Auth profiles re-encrypted under the new master key");
+                console.log(`  Point ${MASTER_KEY_FILE_ENV} at ${keyFile} (and unset ${MASTER_KEY_ENV}), then restart the server.`);
+                break;
+            }
+            default:
+                console.log(`\n  Auth profiles: ${isStoreEncrypted() ? "\x1b[32mencrypted\x1b[0m" : "\x1b[33mplaintext\x1b[0m"}`);
+                console.log("  Usage: openroutex store <encrypt|decrypt|rotate-key>\n");
+                break;
+        }
+    } catch (err: any) {
+        logger.error(err?.message ?? err);
+        process.exitCode = 1;
+    }
+}
+
 async function cmdRoute() {
     const prompt = args.slice(1).join(" ");
     if (!prompt) {
@@ -191,6 +365,144 @@ async function cmdRoute() {
     console.log();
 }
 
+// ── Replay ──────────────────────────────────────────────────────────
+
+type ReplaySide = {
+    route: string;
+    status: string;
+    attempts: RequestStats[];
+    /** Wall time, shown when no attempt succeeded */
+    elapsedMs?: number;
+    response: unknown;
+};
+
+async function cmdReplay() {
+    const requestId = args[1];
+    const timeoutFlag = getFlag("--timeout");
+    const timeoutSeconds = timeoutFlag === undefined ? undefined : Number(timeoutFlag);
+    if (!requestId || requestId.startsWith("--") || (timeoutSeconds !== undefined && !(timeoutSeconds > 0))) {
+        logger.error("Usage: openroutex replay <requestId> [--provider <id>] [--model <id>] [--timeout <seconds>]");
+        process.exitCode = 1;
+        return;
+    }
+    const capture = getCapture(requestId);
+    if (!capture) {
+        logger.error(`No payload captured for ${requestId} (is capture enabled for this key?)`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const original = getRequestAttempts(requestId);
+    const target = { provider: getFlag("--provider"), model: getFlag("--model") };
+
+    // Ctrl-C or --timeout cancels the upstream call; the partial result is still printed
+    const controller = new AbortController();
+    const onSigint = () => controller.abort(new Error("interrupted"));
+    process.once("SIGINT", onSigint);
+    const timer = timeoutSeconds === undefined
+        ? undefined
+        : setTimeout(() => controller.abort(new Error(`timed out after ${timeoutSeconds}s`)), timeoutSeconds * 1000);
+    let replay;
+    try {
+        replay = await replayCapture(capture, target, controller.signal);
+    } catch (err: any) {
+        logger.error(err?.message ?? err);
+        process.exitCode = 1;
+        return;
+    } finally {
+        process.off("SIGINT", onSigint);
+        clearTimeout(timer);
+    }
+    if (replay.error) process.exitCode = 1;
+
+    const originalWinner = winnerOf(original);
+    const replayWinner = winnerOf(replay.attempts);
+    printReplay(
+        requestId,
+        {
+            route: originalWinner ? `${originalWinner.provider}/${originalWinner.model}` : "-",
+            status: String(capture.status),
+            attempts: original,
+            response: capture.response,
+        },
+        {
+            route: replayWinner
+                ? `${replay.via === "router" ? "router → " : ""}${replayWinner.provider}/${replayWinner.model}`
+                : replay.via,
+            status: replay.error ? "failed" : String(replay.status),
+            attempts: replay.attempts,
+            elapsedMs: replay.elapsedMs,
+            response: replay.error ? { error: { message: replay.error } } : replay.response,
+        }
+    );
+    console.log(`  \x1b[90mReplay recorded as ${replay.requestId}\x1b[0m\n`);
+}
+
+/** The attempt that answered, if any did */
+function winnerOf(attempts: RequestStats[]): RequestStats | undefined {
+    return attempts.find((a) => a.success);
+}
+
+function printReplay(requestId: string, left: ReplaySide, right: ReplaySide) {
+    const width = Math.max(80, Math.min(process.stdout.columns ?? 120, 200));
+    const labelWidth = 12;
+    const colWidth = Math.floor((width - labelWidth - 7) / 2);
+
+    const metrics = (side: ReplaySide) => {
+        const winner = winnerOf(side.attempts);
+        const failed = side.attempts.filter((a) => !a.success).length;
+        return {
+            latency: winner ? `${winner.latencyMs}ms` : side.elapsedMs !== undefined ? `${side.elapsedMs}ms` : "-",
+            tokens: winner ? `${winner.promptTokens} in / ${winner.completionTokens} out` : "-",
+            cost: winner ? `$${calculateCost(winner.model, winner.promptTokens, winner.completionTokens).toFixed(6)}` : "-",
+            attempts: `${side.attempts.length}${failed > 0 ? ` (${failed} failed)` : ""}`,
+        };
+    };
+    const a = metrics(left);
+    const b = metrics(right);
+
+    const row = (label: string, l: string, r: string) =>
+        console.log(`  ${label.padEnd(labelWidth)} ${l.slice(0, colWidth).padEnd(colWidth)} │ ${r.slice(0, colWidth)}`);
+
+    console.log(`\n\x1b[36m━━ Replay ${requestId} ━━\x1b[0m\n`);
+    row("", "Captured", "Replay");
+    row("Route", left.route, right.route);
+    row("Status", left.status, right.status);
+    row("Latency", a.latency, b.latency);
+    row("Tokens", a.tokens, b.tokens);
+    row("Cost", a.cost, b.cost);
+    row("Attempts", a.attempts, b.attempts);
+
+    console.log(`\n  ${"─".repeat(labelWidth + colWidth * 2 + 3)}`);
+    const l = wrapText(responseText(left.response), colWidth);
+    const r = wrapText(responseText(right.response), colWidth);
+    for (let i = 0; i < Math.max(l.length, r.length); i++) {
+        row(i === 0 ? "Response" : "", l[i] ?? "", r[i] ?? "");
+    }
+    console.log();
+}
+
+/** Assistant text (plus tool calls) of a chat.completion, or its error */
+function responseText(response: any): string {
+    if (response === null || response === undefined) return "(no response)";
+    if (typeof response === "string") return response;
+    if (response.error) return `Error: ${response.error.message ?? JSON.stringify(response.error)}`;
+    const message = response.choices?.[0]?.message;
+    if (!message) return JSON.stringify(response);
+    const calls = (message.tool_calls ?? []).map((c: any) => `→ ${c.function?.name}(${c.function?.arguments ?? ""})`);
+    const text = [message.content ?? "", ...calls].filter(Boolean).join("\n");
+    return response.incomplete ? `${text}\n[stream incomplete]` : text;
+}
+
+function wrapText(text: string, width: number): string[] {
+    const lines: string[] = [];
+    for (const line of text.split("\n")) {
+        if (line.length === 0) lines.push("");
+        for (let i = 0; i < line.length; i += width) lines.push(line.slice(i, i + width));
+    }
+    return lines;
+}
+
 async function cmdModels() {
     const available = getAvailableProviders();
     console.log(`\n\x1b[36m━━ Available Providers (${available.size}) ━━\x1b[0m\n`);
@@ -236,14 +548,36 @@ Usage: openroutex <command>
 Commands:
   \x1b[33mstart\x1b[0m                          Start proxy server (default port 3402)
     --port <number>              Custom port
+    --log-format <text|json>     Log output format (default: text, or SMART_ROUTER_LOG_FORMAT)
 
   \x1b[33mlogin <provider>\x1b[0m               Add an auth account
     --label <name>               Label for multi-account (default: email if available, else "default")
 
   \x1b[33maccounts\x1b[0m                       List all auth accounts
   \x1b[33maccounts remove <id>\x1b[0m           Remove an account
+  \x1b[33maccounts limits <id>\x1b[0m           Override an account's rate limits
+    --rpm/--rpd <n>              Requests per minute / day
+    --tpm/--tpd <n>              Tokens per minute / day
+    --concurrent <n>             Requests in flight at once
+    --clear                      Back to the provider defaults
+  \x1b[33maccounts set <id>\x1b[0m              Tune an account's selection
+    --weight <n>                 Share of traffic (weighted strategy)
+    --priority <n>               Tier, lower first (priority strategy)
+  \x1b[33maccounts strategy <provider> <name>\x1b[0m
+                                 Profile selection: least-in-flight (default),
+                                 lru, weighted, least-errors, priority
+
+  \x1b[33mstore\x1b[0m                          Show whether credentials are encrypted
+  \x1b[33mstore encrypt | decrypt\x1b[0m        Encrypt auth profiles at rest (or undo it)
+                                 Master key: ${MASTER_KEY_ENV} or ${MASTER_KEY_FILE_ENV}
+  \x1b[33mstore rotate-key\x1b[0m               Re-encrypt under a new master key
+    --new-key-file <path>        New key (generated if the file doesn't exist)
 
   \x1b[33mroute "prompt"\x1b[0m                 Test routing (dry run)
+  \x1b[33mreplay <requestId>\x1b[0m             Re-send a captured request and compare the answers
+    --provider <id>              Send straight to this provider (else through the router)
+    --model <id>                 Model to ask for ("auto" re-routes with the current config)
+    --timeout <seconds>          Give up on the upstream call after this long (Ctrl-C also cancels)
   \x1b[33mmodels\x1b[0m                         Show provider status
   \x1b[33mstats\x1b[0m                          Show usage statistics
 
@@ -272,6 +606,9 @@ async function main() {
         case "route":
             await cmdRoute();
             break;
+        case "replay":
+            await cmdReplay();
+            break;
         case "models":
         case "providers":
             await cmdModels();
@@ -279,6 +616,9 @@ async function main() {
         case "stats":
             await cmdStats();
             break;
+        case "store":
+            await cmdStore();
+            break;
         case "help":
         case "--help":
         case "-h":
@@ -5,7 +5,18 @@
  *   import { route, startProxy, getAvailableProviders } from "openroutex";
  */
 
-export { route, classifyByRules, selectModel, getDefaultConfig } from "./router/index.js";
+export {
+    route,
+    routeRequest,
+    classifyByRules,
+    classifyConversation,
+    selectModel,
+    getDefaultConfig,
+    getRoutingConfig,
+    saveRoutingConfig,
+    resetRoutingConfig,
+    validateRoutingConfig,
+} from "./router/index.js";
 export { startProxy } from "./server/index.js";
 export { getProvider, getAllProviders } from "./providers/index.js";
 export { getModelsForProvider, getAllModels, findModel } from "./models/registry.js";
@@ -13,6 +24,8 @@ export type { ModelInfo } from "./models/registry.js";
 export {
     loadStore,
     saveStore,
+    updateStore,
+    flushStore,
     upsertProfile,
     removeProfile,
     listAllProfiles,
@@ -25,7 +38,8 @@ export {
     buildProfileId,
 } from "./auth/store.js";
 export { getStats, getStatsSummary, recordRequest } from "./storage/stats.js";
-export { logger, setLogLevel } from "./shared/logger.js";
+export { logger, createLogger, setLogLevel, setLogFormat } from "./shared/logger.js";
+export type { Logger, LogFormat, LogFields } from "./shared/logger.js";
 export type {
     Provider,
     ProfileCredential,
@@ -34,6 +48,8 @@ export type {
     TokenCredential,
     ChatCompletionRequest,
     ChatCompletionResponse,
+    ChatMessage,
+    ContentPart,
     RequestStats,
     LoginContext,
     AuthProfileStore,
@@ -45,4 +61,5 @@ export type {
     DimensionScore,
     ModelRoute,
     RoutingConfig,
+    RouteOptions,
 } from "./router/types.js";
@@ -9,7 +9,7 @@ export type ModelInfo = {
     contextWindow: number;
     maxOutput?: number;
     pricing?: { input: number; output: number }; // per 1M tokens in USD
-    capabilities: string[];
+    capabilities: string[]; // routing constraints read "vision", "tools", "json_mode", "thinking"
     free: boolean;
     publicId?: string; // e.g. "google/gemini-2.0-flash"
 };
@@ -23,7 +23,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/gemini-3-pro-high",
         contextWindow: 1_000_000,
-        capabilities: ["code", "reasoning", "analysis"],
+        capabilities: ["code", "reasoning", "analysis", "vision", "tools", "thinking"],
         free: true,
     },
     {
@@ -32,7 +32,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/gemini-3-pro-low",
         contextWindow: 1_000_000,
-        capabilities: ["code", "chat"],
+        capabilities: ["code", "chat", "vision", "tools", "thinking"],
         free: true,
     },
     {
@@ -41,7 +41,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/gemini-3-pro",
         contextWindow: 1_000_000,
-        capabilities: ["code", "reasoning", "analysis"],
+        capabilities: ["code", "reasoning", "analysis", "vision", "tools", "thinking"],
         free: true,
     },
     {
@@ -51,7 +51,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         publicId: "antigravity/gemini-3-flash",
         contextWindow: 1_000_000,
         pricing: { input: 0.075, output: 0.3 },
-        capabilities: ["code", "chat", "fast"],
+        capabilities: ["code", "chat", "fast", "vision", "tools"],
         free: true,
     },
     {
@@ -60,7 +60,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-opus-4-5",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -69,7 +69,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-opus-4.5-thinking",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -78,7 +78,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-opus-4-6",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -88,7 +88,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         publicId: "antigravity/claude-opus-4-6-thinking",
         contextWindow: 200_000,
         pricing: { input: 15, output: 75 },
-        capabilities: ["code", "reasoning", "thinking"],
+        capabilities: ["code", "reasoning", "thinking", "tools"],
         free: true,
     },
     {
@@ -97,7 +97,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-sonnet-4.5",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -106,7 +106,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-sonnet-4.5-thinking",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning", "thinking"],
+        capabilities: ["code", "reasoning", "thinking", "tools"],
         free: true,
     },
     {
@@ -115,7 +115,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/claude-sonnet-3-7-thinking",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning", "thinking"],
+        capabilities: ["code", "reasoning", "thinking", "tools"],
         free: true,
     },
     // Aliases for user convenience
@@ -125,7 +125,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/opus",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -134,7 +134,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/sonnet",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -143,7 +143,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/gemini",
         contextWindow: 1_000_000,
-        capabilities: ["code", "reasoning", "analysis"],
+        capabilities: ["code", "reasoning", "analysis", "vision", "tools"],
         free: true,
     },
     {
@@ -152,7 +152,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         provider: "antigravity",
         publicId: "antigravity/flash",
         contextWindow: 1_000_000,
-        capabilities: ["code", "chat"],
+        capabilities: ["code", "chat", "vision", "tools"],
         free: true,
     },
     {
@@ -162,7 +162,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         publicId: "antigravity/gemini-2.5-pro",
         contextWindow: 2_000_000,
         pricing: { input: 3, output: 9 },
-        capabilities: ["code", "reasoning", "complex"],
+        capabilities: ["code", "reasoning", "complex", "vision", "tools"],
         free: true,
     },
     {
@@ -172,7 +172,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         publicId: "antigravity/gemini-2.5-flash",
         contextWindow: 1_000_000,
         pricing: { input: 0.1, output: 0.4 },
-        capabilities: ["code", "chat", "fast"],
+        capabilities: ["code", "chat", "fast", "vision", "tools"],
         free: true,
     },
     {
@@ -182,7 +182,7 @@ const ANTIGRAVITY_MODELS: ModelInfo[] = [
         publicId: "antigravity/gemini-2.5-flash-lite",
         contextWindow: 1_000_000,
         pricing: { input: 0.05, output: 0.2 },
-        capabilities: ["chat", "fast", "simple"],
+        capabilities: ["chat", "fast", "simple", "vision", "tools"],
         free: true,
     },
     // ── Internal / Stack Models ──
@@ -207,7 +207,7 @@ const OPENAI_CODEX_MODELS: ModelInfo[] = [
         publicId: "openai/gpt-5.1-codex",
         contextWindow: 128_000,
         pricing: { input: 2, output: 8 },
-        capabilities: ["code"],
+        capabilities: ["code", "vision", "tools", "thinking"],
         free: false,
     },
     {
@@ -217,7 +217,7 @@ const OPENAI_CODEX_MODELS: ModelInfo[] = [
         publicId: "openai/gpt-5.2-codex",
         contextWindow: 128_000,
         pricing: { input: 2, output: 8 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "thinking"],
         free: false,
     },
     {
@@ -227,7 +227,7 @@ const OPENAI_CODEX_MODELS: ModelInfo[] = [
         publicId: "openai/gpt-5.3-codex",
         contextWindow: 128_000,
         pricing: { input: 2, output: 8 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "thinking"],
         free: false,
     },
 ];
@@ -241,7 +241,7 @@ const GITHUB_COPILOT_MODELS: ModelInfo[] = [
         provider: "github-copilot",
         publicId: "openai/gpt-4o",
         contextWindow: 128_000,
-        capabilities: ["code"],
+        capabilities: ["code", "tools", "json_mode"],
         free: false,
     },
     {
@@ -250,7 +250,7 @@ const GITHUB_COPILOT_MODELS: ModelInfo[] = [
         provider: "github-copilot",
         publicId: "anthropic/claude-3.5-sonnet",
         contextWindow: 200_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: false,
     },
     {
@@ -259,7 +259,7 @@ const GITHUB_COPILOT_MODELS: ModelInfo[] = [
         provider: "github-copilot",
         publicId: "google/gemini-pro",
         contextWindow: 1_000_000,
-        capabilities: ["code"],
+        capabilities: ["code", "tools"],
         free: false,
     },
 ];
@@ -273,7 +273,7 @@ const QWEN_PORTAL_MODELS: ModelInfo[] = [
         provider: "qwen-portal",
         publicId: "qwen/qwen-coder",
         contextWindow: 32_000,
-        capabilities: ["code"],
+        capabilities: ["code", "tools"],
         free: true,
     },
     {
@@ -296,7 +296,7 @@ const MINIMAX_MODELS: ModelInfo[] = [
         provider: "minimax-portal",
         publicId: "minimax/minimax-2.1",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools"],
         free: true,
     },
     {
@@ -305,7 +305,7 @@ const MINIMAX_MODELS: ModelInfo[] = [
         provider: "minimax-portal",
         publicId: "minimax/minimax-2.1-lightning",
         contextWindow: 128_000,
-        capabilities: ["code", "fast"],
+        capabilities: ["code", "fast", "tools"],
         free: true,
     },
     {
@@ -314,7 +314,7 @@ const MINIMAX_MODELS: ModelInfo[] = [
         provider: "minimax-portal",
         publicId: "minimax/minimax-2.5",
         contextWindow: 245_000,
-        capabilities: ["code", "reasoning", "long_context"],
+        capabilities: ["code", "reasoning", "long_context", "tools"],
         free: true,
     },
     {
@@ -323,7 +323,7 @@ const MINIMAX_MODELS: ModelInfo[] = [
         provider: "minimax-portal",
         publicId: "minimax/minimax-2.5-lightning",
         contextWindow: 245_000,
-        capabilities: ["code", "fast"],
+        capabilities: ["code", "fast", "tools"],
         free: true,
     },
 ];
@@ -338,7 +338,7 @@ const OPENAI_MODELS: ModelInfo[] = [
         publicId: "openai/gpt-4o-mini",
         contextWindow: 128_000,
         pricing: { input: 0.4, output: 1.6 },
-        capabilities: ["code", "chat"],
+        capabilities: ["code", "chat", "vision", "tools", "json_mode"],
         free: false,
     },
     {
@@ -348,7 +348,7 @@ const OPENAI_MODELS: ModelInfo[] = [
         publicId: "openai/gpt-4o",
         contextWindow: 128_000,
         pricing: { input: 2, output: 8 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "json_mode"],
         free: false,
     },
     {
@@ -358,7 +358,7 @@ const OPENAI_MODELS: ModelInfo[] = [
         publicId: "openai/o3-mini",
         contextWindow: 200_000,
         pricing: { input: 10, output: 40 },
-        capabilities: ["reasoning"],
+        capabilities: ["reasoning", "tools", "json_mode", "thinking"],
         free: false,
     },
 ];
@@ -370,7 +370,7 @@ const GOOGLE_MODELS: ModelInfo[] = [
         provider: "google",
         publicId: "google/gemini-2.0-flash-001",
         contextWindow: 1_000_000,
-        capabilities: ["code", "fast"],
+        capabilities: ["code", "fast", "vision", "tools", "json_mode"],
         free: true,
     },
     {
@@ -379,7 +379,7 @@ const GOOGLE_MODELS: ModelInfo[] = [
         provider: "google",
         publicId: "google/gemini-2.0-flash-lite-preview-02-05",
         contextWindow: 1_000_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "json_mode", "thinking"],
         free: true,
     },
     {
@@ -389,7 +389,7 @@ const GOOGLE_MODELS: ModelInfo[] = [
         publicId: "google/gemini-2.0-pro-exp-02-05",
         contextWindow: 1_000_000,
         pricing: { input: 1.25, output: 10 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "json_mode", "thinking"],
         free: false,
     },
 ];
@@ -402,7 +402,7 @@ const ANTHROPIC_MODELS: ModelInfo[] = [
         publicId: "anthropic/claude-3.5-sonnet",
         contextWindow: 200_000,
         pricing: { input: 3, output: 15 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "thinking"],
         free: false,
     },
     {
@@ -412,7 +412,7 @@ const ANTHROPIC_MODELS: ModelInfo[] = [
         publicId: "anthropic/claude-3-opus",
         contextWindow: 200_000,
         pricing: { input: 15, output: 75 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "vision", "tools", "thinking"],
         free: false,
     },
 ];
@@ -425,7 +425,7 @@ const DEEPSEEK_MODELS: ModelInfo[] = [
         publicId: "deepseek/deepseek-chat",
         contextWindow: 64_000,
         pricing: { input: 0.27, output: 1.1 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "json_mode"],
         free: false,
     },
     {
@@ -435,7 +435,7 @@ const DEEPSEEK_MODELS: ModelInfo[] = [
         publicId: "deepseek/deepseek-reasoner",
         contextWindow: 64_000,
         pricing: { input: 0.55, output: 2.19 },
-        capabilities: ["reasoning"],
+        capabilities: ["reasoning", "thinking"],
         free: false,
     },
 ];
@@ -447,7 +447,7 @@ const GROQ_MODELS: ModelInfo[] = [
         provider: "groq",
         publicId: "groq/llama-3.3-70b",
         contextWindow: 128_000,
-        capabilities: ["code", "fast"],
+        capabilities: ["code", "fast", "tools", "json_mode"],
         free: true,
     },
 ];
@@ -460,7 +460,7 @@ const XAI_MODELS: ModelInfo[] = [
         publicId: "xai/grok-2",
         contextWindow: 128_000,
         pricing: { input: 3, output: 15 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "json_mode"],
         free: false,
     },
 ];
@@ -473,7 +473,7 @@ const QWEN_DASHSCOPE_MODELS: ModelInfo[] = [
         publicId: "qwen/qwen-max",
         contextWindow: 32_000,
         pricing: { input: 1.6, output: 6.4 },
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "json_mode"],
         free: false,
     },
 ];
@@ -485,7 +485,7 @@ const OPENROUTER_MODELS: ModelInfo[] = [
         provider: "openrouter",
         publicId: "openroutex/auto",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "json_mode"],
         free: false,
     },
 ];
@@ -497,7 +497,7 @@ const NVIDIA_MODELS: ModelInfo[] = [
         provider: "nvidia",
         publicId: "z-ai/glm5",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "thinking"],
         free: false,
     },
     {
@@ -506,7 +506,7 @@ const NVIDIA_MODELS: ModelInfo[] = [
         provider: "nvidia",
         publicId: "qwen/qwen3.5-397b-a17b",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "thinking"],
         free: false,
     },
     {
@@ -515,7 +515,7 @@ const NVIDIA_MODELS: ModelInfo[] = [
         provider: "nvidia",
         publicId: "moonshotai/kimi-k2.5",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "thinking"],
         free: false,
     },
     {
@@ -524,7 +524,7 @@ const NVIDIA_MODELS: ModelInfo[] = [
         provider: "nvidia",
         publicId: "deepseek-ai/deepseek-v3.2",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "thinking"],
         free: false,
     },
     {
@@ -533,7 +533,7 @@ const NVIDIA_MODELS: ModelInfo[] = [
         provider: "nvidia",
         publicId: "minimaxai/minimax-m2.1",
         contextWindow: 128_000,
-        capabilities: ["code", "reasoning"],
+        capabilities: ["code", "reasoning", "tools", "thinking"],
         free: false,
     },
 ];
@@ -0,0 +1,196 @@
+/**
+ * Prompt token estimator, used for context-window checks and cost estimates
+ * before the provider reports real usage. Text is counted with the o200k_base
+ * BPE tokenizer (exact for current OpenAI models); other families, whose
+ * tokenizers aren't available in JS, scale that count by how their vocab
+ * compares. A character heuristic is the fallback if the tokenizer can't load.
+ */
+
+import { createRequire } from "node:module";
+import type { Tiktoken } from "js-tiktoken/lite";
+import type { ChatCompletionRequest } from "../shared/types.js";
+import { contentToParts } from "../shared/content.js";
+import type { ModelInfo } from "./registry.js";
+
+export type TokenFamily = "openai" | "anthropic" | "gemini" | "qwen" | "deepseek" | "llama" | "generic";
+
+type FamilyProfile = {
+    tokenizerScale: number; // family tokens per o200k_base token
+    charsPerToken: number; // fallback: Latin / code text
+    tokensPerCjkChar: number; // fallback: Chinese / Japanese / Korean characters
+    tokensPerImage: number;
+    tokensPerMessage: number; // role + framing overhead
+};
+
+const FAMILY_PROFILES: Record<TokenFamily, FamilyProfile> = {
+    openai: { tokenizerScale: 1, charsPerToken: 4, tokensPerCjkChar: 0.8, tokensPerImage: 765, tokensPerMessage: 4 },
+    anthropic: { tokenizerScale: 1.2, charsPerToken: 3.5, tokensPerCjkChar: 1.2, tokensPerImage: 1600, tokensPerMessage: 5 },
+    gemini: { tokenizerScale: 1, charsPerToken: 4, tokensPerCjkChar: 0.8, tokensPerImage: 258, tokensPerMessage: 4 },
+    qwen: { tokenizerScale: 1.05, charsPerToken: 3.8, tokensPerCjkChar: 0.7, tokensPerImage: 1024, tokensPerMessage: 4 },
+    deepseek: { tokenizerScale: 1.05, charsPerToken: 3.8, tokensPerCjkChar: 0.7, tokensPerImage: 1024, tokensPerMessage: 4 },
+    llama: { tokenizerScale: 1.15, charsPerToken: 3.8, tokensPerCjkChar: 1.5, tokensPerImage: 1024, tokensPerMessage: 4 },
+    // Unknown tokenizer: err on the high side
+    generic: { tokenizerScale: 1.2, charsPerToken: 3.5, tokensPerCjkChar: 1.2, tokensPerImage: 1024, tokensPerMessage: 5 },
+};
+
+// ── Tokenizer ───────────────────────────────────────────────────────
+
+// Loaded on first use: the ranks take most of a second to parse
+let encoder: Tiktoken | null | undefined;
+
+function getEncoder(): Tiktoken | null {
+    if (encoder === undefined) {
+        try {
+            const require = createRequire(import.meta.url);
+            const { Tiktoken } = require("js-tiktoken/lite") as typeof import("js-tiktoken/lite");
+            encoder = new Tiktoken(require("js-tiktoken/ranks/o200k_base"));
+        } catch {
+            encoder = null;
+        }
+    }
+    return encoder;
+}
+
+// BPE cost is quadratic in the length of one pre-tokenized piece, and a
+// run with no whitespace (base64, minified code, unpunctuated CJK) is one
+// piece, so such runs are encoded in slices of this many characters
+const MAX_RUN = 32;
+
+// The same prompt is estimated for every candidate and attempt
+const COUNT_CACHE_SIZE = 512;
+const countCache = new Map<string, number>();
+
+/** o200k_base token count of `text`, or null when the tokenizer is unavailable. */
+function countTokens(text: string): number | null {
+    const cached = countCache.get(text);
+    if (cached !== undefined) return cached;
+    const enc = getEncoder();
+    if (!enc) return null;
+
+    let count = 0;
+    let start = 0;
+    let run = 0;
+    for (let i = 0; i < text.length; i++) {
+        run = /\s/.test(text[i]) ? 0 : run + 1;
+        // Never cut between the halves of a surrogate pair (emoji etc.)
+        const highSurrogate = (text.charCodeAt(i) & 0xfc00) === 0xd800;
+        if (run >= MAX_RUN && !highSurrogate) {
+            count += enc.encode(text.slice(start, i + 1)).length;
+            start = i + 1;
+            run = 0;
+        }
+    }
+    count += enc.encode(text.slice(start)).length;
+
+    if (countCache.size >= COUNT_CACHE_SIZE) {
+        countCache.delete(countCache.keys().next().value!);
+    }
+    countCache.set(text, count);
+    return count;
+}
+
+/**
+ * Map a model (and optionally its provider) to a tokenizer family.
+ */
+export function getTokenFamily(modelId: string, provider?: string): TokenFamily {
+    const id = modelId.toLowerCase();
+    if (id.includes("claude") || id === "opus" || id === "sonnet") return "anthropic";
+    if (id.includes("gemini") || id === "flash" || id.includes("nano-banana")) return "gemini";
+    if (id.startsWith("gpt") || id.includes("codex") || /^o\d/.test(id)) return "openai";
+    if (id.includes("qwen") || id === "coder-model" || id === "vision-model") return "qwen";
+    if (id.includes("deepseek")) return "deepseek";
+    if (id.includes("llama")) return "llama";
+
+    switch (provider) {
+        case "anthropic":
+            return "anthropic";
+        case "google":
+            return "gemini";
+        case "openai":
+        case "openai-codex":
+            return "openai";
+        case "qwen-portal":
+        case "qwen-dashscope":
+            return "qwen";
+        default:
+            return "generic";
+    }
+}
+
+function isCjk(code: number): boolean {
+    return (
+        (code >= 0x3040 && code <= 0x30ff) || // Hiragana, Katakana
+        (code >= 0x3400 && code <= 0x9fff) || // CJK ideographs
+        (code >= 0xac00 && code <= 0xd7af) || // Hangul
+        (code >= 0xf900 && code <= 0xfaff)
+    );
+}
+
+/**
+ * Estimate the token count of a piece of text for a tokenizer family.
+ */
+export function estimateTextTokens(text: string, family: TokenFamily = "generic"): number {
+    if (!text) return 0;
+    const profile = FAMILY_PROFILES[family];
+    const counted = countTokens(text);
+    if (counted !== null) return Math.ceil(counted * profile.tokenizerScale);
+    return estimateByChars(text, profile);
+}
+
+/** Fallback when the tokenizer can't be loaded: characters per token, CJK weighed separately. */
+function estimateByChars(text: string, profile: FamilyProfile): number {
+    let cjk = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (isCjk(text.charCodeAt(i))) cjk++;
+    }
+    const other = text.length - cjk;
+    return Math.ceil(other / profile.charsPerToken + cjk * profile.tokensPerCjkChar);
+}
+
+/**
+ * Estimate prompt tokens for a request (messages, tool calls, tool
+ * definitions and images) as seen by the given model.
+ */
+export function estimatePromptTokens(
+    body: ChatCompletionRequest,
+    modelId: string = body.model ?? "",
+    provider?: string,
+): number {
+    const family = getTokenFamily(modelId, provider);
+    const profile = FAMILY_PROFILES[family];
+
+    let tokens = 3; // reply priming
+    for (const m of body.messages) {
+        tokens += profile.tokensPerMessage;
+        for (const part of contentToParts(m.content)) {
+            tokens += part.type === "text"
+                ? estimateTextTokens(part.text, family)
+                : profile.tokensPerImage;
+        }
+        if (m.name) tokens += estimateTextTokens(m.name, family);
+        if (m.tool_calls?.length) {
+            tokens += estimateTextTokens(JSON.stringify(m.tool_calls), family);
+        }
+    }
+    if (body.tools?.length) {
+        tokens += estimateTextTokens(JSON.stringify(body.tools), family);
+    }
+    return tokens;
+}
+
+/**
+ * Build a memoized per-model prompt estimator for one request; each
+ * tokenizer family is only computed once.
+ */
+export function createPromptEstimator(body: ChatCompletionRequest): (model: ModelInfo) => number {
+    const cache = new Map<TokenFamily, number>();
+    return (model) => {
+        const family = getTokenFamily(model.id, model.provider);
+        let tokens = cache.get(family);
+        if (tokens === undefined) {
+            tokens = estimatePromptTokens(body, model.id, model.provider);
+            cache.set(family, tokens);
+        }
+        return tokens;
+    };
+}
@@ -0,0 +1,305 @@
+import type {
+    ChatCompletionRequest,
+    ChatCompletionResponse,
+    ChatMessage,
+    ToolCall,
+} from "../shared/types.js";
+import { findModel } from "../models/registry.js";
+import { contentToParts, contentToText, parseDataUrl } from "../shared/content.js";
+
+// ── Anthropic Messages API translation ──────────────────────────────
+// https://docs.anthropic.com/en/api/messages
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+    | { type: "text"; text: string }
+    | {
+        type: "image";
+        source:
+            | { type: "base64"; media_type: string; data: string }
+            | { type: "url"; url: string };
+    }
+    | { type: "tool_use"; id: string; name: string; input: unknown }
+    | { type: "tool_result"; tool_use_id: string; content: string };
+
+type AnthropicMessage = {
+    role: "user" | "assistant";
+    content: AnthropicContentBlock[];
+};
+
+function parseToolArguments(args: string): unknown {
+    try {
+        return JSON.parse(args || "{}");
+    } catch {
+        return {};
+    }
+}
+
+function toAnthropicBlocks(m: ChatMessage): AnthropicContentBlock[] {
+    if (m.role === "tool") {
+        return [{
+            type: "tool_result",
+            tool_use_id: m.tool_call_id ?? "",
+            content: contentToText(m.content),
+        }];
+    }
+
+    const blocks: AnthropicContentBlock[] = [];
+    for (const part of contentToParts(m.content)) {
+        if (part.type === "text") {
+            if (part.text) blocks.push({ type: "text", text: part.text });
+            continue;
+        }
+        const inline = parseDataUrl(part.image_url.url);
+        blocks.push({
+            type: "image",
+            source: inline
+                ? { type: "base64", media_type: inline.mimeType, data: inline.data }
+                : { type: "url", url: part.image_url.url },
+        });
+    }
+    for (const call of m.tool_calls ?? []) {
+        blocks.push({
+            type: "tool_use",
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+        });
+    }
+    return blocks;
+}
+
+/**
+ * Convert an OpenAI chat completion request → Anthropic Messages request.
+ * System messages become the top-level `system` field, tool results become
+ * user `tool_result` blocks, and consecutive same-role turns are merged.
+ */
+export function chatToAnthropicBody(body: ChatCompletionRequest): unknown {
+    const system = body.messages
+        .filter((m) => m.role === "system")
+        .map((m) => contentToText(m.content))
+        .join("\n");
+
+    const messages: AnthropicMessage[] = [];
+    for (const m of body.messages) {
+        if (m.role === "system") continue;
+        const role = m.role === "assistant" ? "assistant" : "user";
+        const blocks = toAnthropicBlocks(m);
+        if (blocks.length === 0) continue;
+
+        const prev = messages[messages.length - 1];
+        if (prev && prev.role === role) {
+            prev.content.push(...blocks);
+        } else {
+            messages.push({ role, content: blocks });
+        }
+    }
+
+    const model = findModel(body.model ?? "");
+    const anthropicBody: Record<string, unknown> = {
+        model: body.model,
+        messages,
+        // Anthropic rejects requests without max_tokens
+        max_tokens: body.max_tokens ?? model?.maxOutput ?? DEFAULT_MAX_TOKENS,
+    };
+
+    if (system) anthropicBody.system = system;
+    if (body.stream) anthropicBody.stream = true;
+    if (body.temperature != null) anthropicBody.temperature = body.temperature;
+    if (body.top_p != null) anthropicBody.top_p = body.top_p;
+    if (body.stop != null) {
+        anthropicBody.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+    }
+    if (typeof body.user === "string") {
+        anthropicBody.metadata = { user_id: body.user };
+    }
+    if (body.thinking) anthropicBody.thinking = body.thinking;
+
+    if (body.tools?.length) {
+        anthropicBody.tools = body.tools.map((t) => ({
+            name: t.function.name,
+            description: t.function.description,
+            input_schema: t.function.parameters ?? { type: "object", properties: {} },
+        }));
+    }
+
+    const choice = body.tool_choice;
+    if (choice === "auto") anthropicBody.tool_choice = { type: "auto" };
+    else if (choice === "required") anthropicBody.tool_choice = { type: "any" };
+    else if (choice === "none") anthropicBody.tool_choice = { type: "none" };
+    else if (typeof choice === "object" && choice?.function?.name) {
+        anthropicBody.tool_choice = { type: "tool", name: choice.function.name };
+    }
+
+    return anthropicBody;
+}
+
+// ── Response conversion (Anthropic → OpenAI) ────────────────────────
+
+export function anthropicStopReasonToFinish(reason: string | null | undefined): string | null {
+    switch (reason) {
+        case "end_turn":
+        case "stop_sequence":
+            return "stop";
+        case "max_tokens":
+            return "length";
+        case "tool_use":
+            return "tool_calls";
+        case null:
+        case undefined:
+            return null;
+        default:
+            return "stop";
+    }
+}
+
+export function anthropicToOpenAI(raw: unknown, model: string): ChatCompletionResponse {
+    const msg = (typeof raw === "object" && raw !== null ? raw : {}) as {
+        id?: string;
+        model?: string;
+        content?: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+        stop_reason?: string;
+        usage?: { input_tokens?: number; output_tokens?: number };
+    };
+
+    const blocks = msg.content ?? [];
+    const text = blocks
+        .filter((b) => b.type === "text")
+        .map((b) => b.text ?? "")
+        .join("");
+    const toolCalls: ToolCall[] = blocks
+        .filter((b) => b.type === "tool_use")
+        .map((b) => ({
+            id: b.id ?? "",
+            type: "function",
+            function: { name: b.name ?? "", arguments: JSON.stringify(b.input ?? {}) },
+        }));
+
+    const message: ChatMessage = {
+        role: "assistant",
+        content: text || (toolCalls.length > 0 ? null : ""),
+    };
+    if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+    const promptTokens = msg.usage?.input_tokens ?? 0;
+    const completionTokens = msg.usage?.output_tokens ?? 0;
+
+    return {
+        id: msg.id ?? `anthropic-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: msg.model ?? model,
+        choices: [{
+            index: 0,
+            message,
+            finish_reason: anthropicStopReasonToFinish(msg.stop_reason) ?? "stop",
+        }],
+        usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens,
+        },
+    };
+}
+
+// ── Streaming conversion (Anthropic SSE → OpenAI chunks) ────────────
+
+export const ANTHROPIC_STREAM_EVENTS = new Set([
+    "message_start",
+    "content_block_start",
+    "content_block_delta",
+    "content_block_stop",
+    "message_delta",
+    "message_stop",
+    "ping",
+]);
+
+export type AnthropicStreamState = {
+    id: string;
+    model?: string;
+    promptTokens: number;
+    completionTokens: number;
+    /** Anthropic content block index → OpenAI tool_calls index */
+    toolIndexByBlock: Map<number, number>;
+};
+
+export function createAnthropicStreamState(): AnthropicStreamState {
+    return {
+        id: `chatcmpl-${Date.now()}`,
+        promptTokens: 0,
+        completionTokens: 0,
+        toolIndexByBlock: new Map(),
+    };
+}
+
+/**
+ * Translate one Anthropic stream event into OpenAI `delta` / finish parts.
+ * Returns null for events that produce no client-visible output
+ * (ping, content_block_stop, message_stop).
+ */
+export function anthropicEventToDelta(
+    event: any,
+    state: AnthropicStreamState,
+): { delta: Record<string, unknown>; finish_reason: string | null; usage?: ChatCompletionResponse["usage"] } | null {
+    switch (event.type) {
+        case "message_start": {
+            const m = event.message ?? {};
+            if (m.id) state.id = m.id;
+            if (m.model) state.model = m.model;
+            state.promptTokens = m.usage?.input_tokens ?? 0;
+            state.completionTokens = m.usage?.output_tokens ?? 0;
+            return { delta: { role: "assistant", content: "" }, finish_reason: null };
+        }
+        case "content_block_start": {
+            const block = event.content_block ?? {};
+            if (block.type !== "tool_use") return null;
+            const toolIndex = state.toolIndexByBlock.size;
+            state.toolIndexByBlock.set(event.index, toolIndex);
+            return {
+                delta: {
+                    tool_calls: [{
+                        index: toolIndex,
+                        id: block.id,
+                        type: "function",
+                        function: { name: block.name, arguments: "" },
+                    }],
+                },
+                finish_reason: null,
+            };
+        }
+        case "content_block_delta": {
+            const d = event.delta ?? {};
+            if (d.type === "text_delta" && d.text) {
+                return { delta: { content: d.text }, finish_reason: null };
+            }
+            if (d.type === "input_json_delta") {
+                const toolIndex = state.toolIndexByBlock.get(event.index);
+                if (toolIndex === undefined) return null;
+                return {
+                    delta: {
+                        tool_calls: [{ index: toolIndex, function: { arguments: d.partial_json ?? "" } }],
+                    },
+                    finish_reason: null,
+                };
+            }
+            return null;
+        }
+        case "message_delta": {
+            if (event.usage?.output_tokens != null) {
+                state.completionTokens = event.usage.output_tokens;
+            }
+            return {
+                delta: {},
+                finish_reason: anthropicStopReasonToFinish(event.delta?.stop_reason) ?? "stop",
+                usage: {
+                    prompt_tokens: state.promptTokens,
+                    completion_tokens: state.completionTokens,
+                    total_tokens: state.promptTokens + state.completionTokens,
+                },
+            };
+        }
+        default:
+            return null;
+    }
+}
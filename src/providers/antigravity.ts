@@ -4,10 +4,19 @@ import type {
   Provider,
   ChatCompletionRequest,
   ChatCompletionResponse,
+  ChatMessage,
   ProfileCredential,
   OAuthCredential,
   LoginContext,
+  ToolCall,
 } from "../shared/types.js";
+import {
+  contentToParts,
+  contentToText,
+  guessImageMimeType,
+  parseDataUrl,
+} from "../shared/content.js";
+import { refreshTokenError } from "./base.js";
 
 // ── OAuth constants ─────────────────────────────────────────
 // Set ANTIGRAVITY_CLIENT_ID and ANTIGRAVITY_CLIENT_SECRET in your .env
@@ -242,7 +251,7 @@ async function refreshToken(cred: OAuthCredential): Promise<OAuthCredential> {
     }),
   });
 
-  if (!res.ok) throw new Error(`Token refresh failed: ${await res.text()}`);
+  if (!res.ok) throw refreshTokenError(res.status, await res.text());
 
   const data = (await res.json()) as {
     access_token: string;
@@ -258,6 +267,132 @@ async function refreshToken(cred: OAuthCredential): Promise<OAuthCredential> {
   };
 }
 
+// ── Request conversion (OpenAI → Gemini contents) ───────────────────
+
+type GeminiPart = Record<string, unknown>;
+type GeminiContent = { role: "user" | "model"; parts: GeminiPart[] };
+
+// Gemini accepts an OpenAPI subset for function parameters
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "additionalProperties", "strict"]);
+
+function sanitizeSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(sanitizeSchema);
+  if (typeof schema !== "object" || schema === null) return schema;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(k)) continue;
+    out[k] = sanitizeSchema(v);
+  }
+  return out;
+}
+
+function contentToGeminiParts(content: ChatMessage["content"]): GeminiPart[] {
+  return contentToParts(content).map((part) => {
+    if (part.type === "text") return { text: part.text };
+    const url = part.image_url.url;
+    const inline = parseDataUrl(url);
+    return inline
+      ? { inlineData: { mimeType: inline.mimeType, data: inline.data } }
+      : { fileData: { mimeType: guessImageMimeType(url), fileUri: url } };
+  });
+}
+
+function parseJsonObject(text: string | null | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(text || "{}");
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? parsed
+      : { result: parsed };
+  } catch {
+    return { result: text ?? "" };
+  }
+}
+
+/**
+ * Convert non-system OpenAI messages → Gemini contents. Assistant tool calls
+ * become `functionCall` parts and tool results become `functionResponse`
+ * parts; consecutive same-role turns are merged as Gemini requires.
+ */
+export function messagesToGeminiContents(messages: ChatMessage[]): GeminiContent[] {
+  const toolNames = new Map<string, string>();
+  for (const m of messages) {
+    for (const call of m.tool_calls ?? []) toolNames.set(call.id, call.function.name);
+  }
+
+  const contents: GeminiContent[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    const role = m.role === "assistant" ? "model" : "user";
+    const parts: GeminiPart[] = [];
+
+    if (m.role === "tool") {
+      parts.push({
+        functionResponse: {
+          id: m.tool_call_id,
+          name: toolNames.get(m.tool_call_id ?? "") ?? m.name ?? "tool",
+          response: parseJsonObject(contentToText(m.content)),
+        },
+      });
+    } else {
+      parts.push(...contentToGeminiParts(m.content));
+      if (parts.length === 0 && !m.tool_calls?.length) parts.push({ text: "" });
+      for (const call of m.tool_calls ?? []) {
+        parts.push({
+          functionCall: {
+            id: call.id,
+            name: call.function.name,
+            args: parseJsonObject(call.function.arguments),
+          },
+        });
+      }
+    }
+
+    const prev = contents[contents.length - 1];
+    if (prev && prev.role === role) prev.parts.push(...parts);
+    else contents.push({ role, parts });
+  }
+  return contents;
+}
+
+function applyGeminiTools(body: ChatCompletionRequest, request: Record<string, unknown>) {
+  if (!body.tools?.length) return;
+
+  request.tools = [
+    {
+      functionDeclarations: body.tools.map((t) => ({
+        name: t.function.name,
+        description: t.function.description,
+        parameters: t.function.parameters ? sanitizeSchema(t.function.parameters) : undefined,
+      })),
+    },
+  ];
+
+  const choice = body.tool_choice;
+  if (choice === "none") {
+    request.toolConfig = { functionCallingConfig: { mode: "NONE" } };
+  } else if (choice === "required") {
+    request.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+  } else if (typeof choice === "object" && choice?.function?.name) {
+    request.toolConfig = {
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: [choice.function.name] },
+    };
+  }
+}
+
+function geminiPartsToToolCalls(parts: Array<{ functionCall?: { id?: string; name?: string; args?: unknown } }>): ToolCall[] {
+  return parts
+    .filter((p) => p.functionCall)
+    .map((p, i) => ({
+      id: p.functionCall!.id ?? `call_${Date.now()}_${i}`,
+      type: "function",
+      function: {
+        name: p.functionCall!.name ?? "",
+        arguments: JSON.stringify(p.functionCall!.args ?? {}),
+      },
+    }));
+}
+
 // ── Response conversion (Cloud Code Assist → OpenAI format) ─────────
 
 function codeAssistToOpenAI(
@@ -267,7 +402,7 @@ function codeAssistToOpenAI(
   let response:
     | {
       candidates?: Array<{
-        content?: { parts?: Array<{ text?: string }> };
+        content?: { parts?: Array<{ text?: string; functionCall?: { id?: string; name?: string; args?: unknown } }> };
         finishReason?: string;
       }>;
       usageMetadata?: {
@@ -287,6 +422,7 @@ function codeAssistToOpenAI(
   else if (typeof raw === "string") {
     const lines = raw.split("\n");
     const partsText: string[] = [];
+    const functionCallParts: Array<{ functionCall?: { id?: string; name?: string; args?: unknown } }> = [];
     let finishReason = "stop";
     let usage = {
       promptTokenCount: 0,
@@ -308,6 +444,7 @@ function codeAssistToOpenAI(
           if (content?.parts) {
             for (const part of content.parts) {
               if (part.text) partsText.push(part.text);
+              if (part.functionCall) functionCallParts.push(part);
             }
           }
           if (candidates[0].finishReason) {
@@ -329,7 +466,7 @@ function codeAssistToOpenAI(
     response = {
       candidates: [
         {
-          content: { parts: [{ text: partsText.join("") }] },
+          content: { parts: [{ text: partsText.join("") }, ...functionCallParts] },
           finishReason,
         },
       ],
@@ -339,6 +476,13 @@ function codeAssistToOpenAI(
 
   const parts = response?.candidates?.[0]?.content?.parts ?? [];
   const text = parts.map((p) => p.text ?? "").join("");
+  const toolCalls = geminiPartsToToolCalls(parts);
+
+  const message: ChatMessage = {
+    role: "assistant",
+    content: text || (toolCalls.length > 0 ? null : ""),
+  };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
 
   return {
     id: `ag-${Date.now()}`,
@@ -348,9 +492,8 @@ function codeAssistToOpenAI(
     choices: [
       {
         index: 0,
-        message: { role: "assistant", content: text },
-        finish_reason:
-          response?.candidates?.[0]?.finishReason === "STOP" ? "stop" : "stop",
+        message,
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
       },
     ],
     usage: {
@@ -429,19 +572,16 @@ export const antigravityProvider: Provider = {
   formatRequest(body: ChatCompletionRequest): unknown {
     // Convert OpenAI messages format → Cloud Code Assist wrapped format
     const systemMsg = body.messages.find((m) => m.role === "system");
-    const nonSystemMsgs = body.messages.filter((m) => m.role !== "system");
 
     const request: Record<string, unknown> = {
-      contents: nonSystemMsgs.map((m) => ({
-        role: m.role === "assistant" ? "model" : "user",
-        parts: [{ text: m.content ?? "" }],
-      })),
+      contents: messagesToGeminiContents(body.messages),
     };
+    applyGeminiTools(body, request);
 
     if (systemMsg) {
       request.systemInstruction = {
         role: "user",
-        parts: [{ text: systemMsg.content ?? "" }],
+        parts: [{ text: contentToText(systemMsg.content) }],
       };
     }
 
@@ -583,6 +723,19 @@ export const antigravityProvider: Provider = {
       );
     }
 
+    // Gemini 3 validates thought signatures on replayed function calls. We
+    // don't round-trip them through OpenAI tool_calls, so use the documented
+    // bypass value for history we didn't receive a signature for.
+    if (backendModel.startsWith("gemini-3")) {
+      for (const content of request.contents as GeminiContent[]) {
+        for (const part of content.parts) {
+          if (part.functionCall && !part.thoughtSignature) {
+            part.thoughtSignature = "skip_thought_signature_validator";
+          }
+        }
+      }
+    }
+
     return {
       // projectId is set dynamically per-credential by the proxy if needed
       // but for OAuth it's implicit or passed differently.
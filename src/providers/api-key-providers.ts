@@ -1,4 +1,5 @@
 import { createApiKeyProvider } from "./base.js";
+import { chatToAnthropicBody, anthropicToOpenAI } from "./anthropic.js";
 import type { Provider } from "../shared/types.js";
 
 // 1. OpenAI
@@ -39,6 +40,11 @@ export const anthropicProvider: Provider = createApiKeyProvider({
     envVar: "ANTHROPIC_API_KEY",
     headerStyle: "x-api-key",
     extraHeaders: { "anthropic-version": "2023-06-01" },
+    // Native Messages API, not OpenAI-compatible
+    buildUrl: (baseUrl) => `${baseUrl}/messages`,
+    transformRequest: chatToAnthropicBody,
+    transformResponse: (raw, modelId) =>
+        anthropicToOpenAI(raw, modelId ? `anthropic/${modelId}` : "anthropic"),
 });
 
 // 5. DeepSeek
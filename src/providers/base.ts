@@ -1,4 +1,4 @@
-import type { Provider, ChatCompletionRequest, ProfileCredential, LoginContext, OAuthCredential } from "../shared/types.js";
+import type { Provider, ChatCompletionRequest, ChatCompletionResponse, ProfileCredential, LoginContext, OAuthCredential, RateLimits } from "../shared/types.js";
 
 /**
  * Base provider with shared utilities.
@@ -11,10 +11,9 @@ export function createApiKeyProvider(opts: {
     headerStyle?: "bearer" | "x-api-key";
     extraHeaders?: Record<string, string>;
     transformRequest?: (body: ChatCompletionRequest) => unknown;
-    rateLimits?: {
-        requestsPerMinute?: number;
-        requestsPerDay?: number;
-    };
+    transformResponse?: (raw: unknown, modelId?: string) => ChatCompletionResponse;
+    buildUrl?: (baseUrl: string, model: string) => string;
+    rateLimits?: RateLimits;
 }): Provider {
     return {
         id: opts.id,
@@ -23,6 +22,8 @@ export function createApiKeyProvider(opts: {
         supportsStreaming: true,
         isOpenAICompatible: opts.id !== "anthropic",
         rateLimits: opts.rateLimits,
+        buildUrl: opts.buildUrl,
+        formatResponse: opts.transformResponse,
 
         async login(_ctx: LoginContext): Promise<ProfileCredential> {
             const key = process.env[opts.envVar];
@@ -57,3 +58,19 @@ export function createApiKeyProvider(opts: {
         },
     };
 }
+
+// Responses from token endpoints meaning the refresh token itself is dead
+// (OAuth `invalid_grant`, OpenAI's refresh_token_* codes), not a transient error
+const REVOKED_REFRESH = /invalid_grant|invalid_refresh_token|refresh_token_(expired|reused|invalidated)|revoked/i;
+
+/**
+ * Error for a failed refresh-token grant. `revoked` is set when the user
+ * has to log in again; anything else is worth retrying later.
+ */
+export function refreshTokenError(status: number, body: string): Error {
+    const revoked = status >= 400 && status < 500 && REVOKED_REFRESH.test(body);
+    return Object.assign(new Error(`Token refresh failed (${status}): ${body}`), {
+        reason: revoked ? "auth" : "unknown",
+        revoked,
+    });
+}
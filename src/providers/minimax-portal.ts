@@ -6,6 +6,7 @@ import type {
     OAuthCredential,
     LoginContext,
 } from "../shared/types.js";
+import { refreshTokenError } from "./base.js";
 
 // ── MiniMax OAuth constants (from openclaw minimax-portal-auth) ─────
 
@@ -108,6 +109,37 @@ function createMiniMaxProvider(region: Region): Provider {
         formatRequest(body: ChatCompletionRequest): unknown {
             return body;
         },
+
+        refreshToken: (cred) => refreshToken(cred, region),
+    };
+}
+
+async function refreshToken(cred: OAuthCredential, region: Region): Promise<OAuthCredential> {
+    const cfg = CONFIG[region];
+    const res = await fetch(`${cfg.baseUrl}/oauth/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: toFormUrlEncoded({
+            grant_type: "refresh_token",
+            client_id: cfg.clientId,
+            refresh_token: cred.refresh,
+        }),
+    });
+
+    const text = await res.text();
+    let payload: any;
+    try { payload = JSON.parse(text); } catch { payload = undefined; }
+    if (!res.ok || payload?.status === "error") throw refreshTokenError(res.status, text);
+    if (!payload?.access_token || !payload.expired_in) {
+        throw new Error("Incomplete MiniMax token refresh");
+    }
+
+    return {
+        ...cred,
+        access: payload.access_token,
+        refresh: payload.refresh_token ?? cred.refresh,
+        // Absolute timestamp, as in the login response
+        expires: payload.expired_in,
     };
 }
 
@@ -8,7 +8,10 @@ import type {
     ProfileCredential,
     OAuthCredential,
     LoginContext,
+    ToolCall,
 } from "../shared/types.js";
+import { contentToText } from "../shared/content.js";
+import { refreshTokenError } from "./base.js";
 
 // ── OpenAI Codex OAuth constants (from pi-ai) ──────────────────────
 
@@ -180,7 +183,7 @@ async function refreshToken(cred: OAuthCredential): Promise<OAuthCredential> {
         }),
     });
 
-    if (!res.ok) throw new Error(`Token refresh failed: ${await res.text()}`);
+    if (!res.ok) throw refreshTokenError(res.status, await res.text());
 
     const data = (await res.json()) as {
         access_token: string;
@@ -205,13 +208,47 @@ function chatToCodexBody(body: ChatCompletionRequest): unknown {
     // Extract system prompt from messages
     const systemMsgs = body.messages.filter((m) => m.role === "system");
     const nonSystemMsgs = body.messages.filter((m) => m.role !== "system");
-    const instructions = systemMsgs.map((m) => m.content).join("\n") || undefined;
-
-    // Convert messages to Responses API input format
-    const input = nonSystemMsgs.map((m) => ({
-        role: m.role === "assistant" ? "assistant" : "user",
-        content: String(m.content ?? ""),
-    }));
+    const instructions = systemMsgs.map((m) => contentToText(m.content)).join("\n") || undefined;
+
+    // Convert messages to Responses API input items. Tool calls and tool
+    // results are standalone `function_call` / `function_call_output` items.
+    const input: unknown[] = [];
+    for (const m of nonSystemMsgs) {
+        if (m.role === "tool") {
+            input.push({
+                type: "function_call_output",
+                call_id: m.tool_call_id ?? "",
+                output: contentToText(m.content),
+            });
+            continue;
+        }
+        if (typeof m.content === "string" || m.content == null) {
+            if (m.content || !m.tool_calls?.length) {
+                input.push({
+                    role: m.role === "assistant" ? "assistant" : "user",
+                    content: m.content ?? "",
+                });
+            }
+        } else {
+            input.push({
+                role: m.role === "assistant" ? "assistant" : "user",
+                content: m.content.map((part) => {
+                    if (part.type === "image_url") {
+                        return { type: "input_image", image_url: part.image_url.url, detail: part.image_url.detail ?? "auto" };
+                    }
+                    return { type: m.role === "assistant" ? "output_text" : "input_text", text: part.text };
+                }),
+            });
+        }
+        for (const call of m.tool_calls ?? []) {
+            input.push({
+                type: "function_call",
+                call_id: call.id,
+                name: call.function.name,
+                arguments: call.function.arguments,
+            });
+        }
+    }
 
     const codexBody: Record<string, unknown> = {
         model: body.model,
@@ -221,6 +258,23 @@ function chatToCodexBody(body: ChatCompletionRequest): unknown {
         input,
     };
 
+    if (body.tools?.length) {
+        codexBody.tools = body.tools.map((t) => ({
+            type: "function",
+            name: t.function.name,
+            description: t.function.description,
+            parameters: t.function.parameters ?? { type: "object", properties: {} },
+            strict: false,
+        }));
+        codexBody.parallel_tool_calls = body.parallel_tool_calls ?? true;
+
+        const choice = body.tool_choice;
+        if (typeof choice === "string") codexBody.tool_choice = choice;
+        else if (choice?.function?.name) {
+            codexBody.tool_choice = { type: "function", name: choice.function.name };
+        }
+    }
+
     return codexBody;
 }
 
@@ -231,6 +285,7 @@ function codexResponsesToOpenAI(raw: unknown, model: string): ChatCompletionResp
     if (typeof raw === "string") {
         const lines = raw.split("\n");
         const textParts: string[] = [];
+        const toolCalls: ToolCall[] = [];
         let finishReason = "stop";
         let usage = { input: 0, output: 0, total: 0 };
 
@@ -248,6 +303,18 @@ function codexResponsesToOpenAI(raw: unknown, model: string): ChatCompletionResp
                     if (event.delta) textParts.push(event.delta);
                 }
 
+                // Completed function call item
+                if (type === "response.output_item.done" && event.item?.type === "function_call") {
+                    toolCalls.push({
+                        id: event.item.call_id ?? event.item.id ?? "",
+                        type: "function",
+                        function: {
+                            name: event.item.name ?? "",
+                            arguments: event.item.arguments ?? "",
+                        },
+                    });
+                }
+
                 // Response completed — extract usage
                 if (type === "response.completed" || type === "response.done") {
                     const resp = event.response;
@@ -290,8 +357,10 @@ function codexResponsesToOpenAI(raw: unknown, model: string): ChatCompletionResp
             model,
             choices: [{
                 index: 0,
-                message: { role: "assistant", content: textParts.join("") },
-                finish_reason: finishReason,
+                message: toolCalls.length > 0
+                    ? { role: "assistant", content: textParts.join("") || null, tool_calls: toolCalls }
+                    : { role: "assistant", content: textParts.join("") },
+                finish_reason: toolCalls.length > 0 ? "tool_calls" : finishReason,
             }],
             usage: {
                 prompt_tokens: usage.input,
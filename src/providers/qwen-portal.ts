@@ -6,6 +6,7 @@ import type {
     OAuthCredential,
     LoginContext,
 } from "../shared/types.js";
+import { refreshTokenError } from "./base.js";
 
 // ── Qwen OAuth constants (from openclaw qwen-portal-auth) ──────────
 
@@ -163,6 +164,39 @@ async function pollForToken(
     };
 }
 
+// ── Token refresh ───────────────────────────────────────────────────
+
+async function refreshToken(cred: OAuthCredential): Promise<OAuthCredential> {
+    const res = await fetch(TOKEN_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: toFormUrlEncoded({
+            grant_type: "refresh_token",
+            refresh_token: cred.refresh,
+            client_id: CLIENT_ID,
+        }),
+    });
+
+    if (!res.ok) throw refreshTokenError(res.status, await res.text());
+
+    const data = (await res.json()) as {
+        access_token?: string;
+        refresh_token?: string;
+        expires_in?: number;
+        resource_url?: string;
+    };
+    if (!data.access_token || !data.expires_in) {
+        throw new Error("Incomplete token refresh response");
+    }
+
+    return {
+        ...cred,
+        access: data.access_token,
+        refresh: data.refresh_token ?? cred.refresh,
+        expires: Date.now() + data.expires_in * 1000,
+    };
+}
+
 // ── Provider export ─────────────────────────────────────────────────
 
 export const qwenPortalProvider: Provider = {
@@ -209,4 +243,6 @@ export const qwenPortalProvider: Provider = {
     formatRequest(body: ChatCompletionRequest): unknown {
         return body; // OpenAI-compatible
     },
+
+    refreshToken,
 };
@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+import type { ChatCompletionRequest } from "../shared/types.js";
+import { contentToText } from "../shared/content.js";
+import { getModelsForProvider } from "../models/registry.js";
+import { unmetRequirements } from "./requirements.js";
+import type { RouteOptions, RoutingDecision, Tier } from "./types.js";
+
+// ── Conversation-sticky routing ─────────────────────────────────────
+// Pins a conversation to the provider / model / profile that last served
+// it, so follow-up turns keep prompt caches and a consistent voice instead
+// of being re-scored onto a different model. In-memory only; a pin lasts
+// for the configured TTL after the conversation's last request.
+
+export const AFFINITY_HEADER = "x-smart-router-session";
+
+const MAX_ENTRIES = 10_000;
+
+const TIER_RANK: Record<Tier, number> = {
+    SIMPLE: 0,
+    MEDIUM: 1,
+    COMPLEX: 2,
+    REASONING: 3,
+};
+
+export type AffinityEntry = {
+    provider: string;
+    model: string;
+    profileId?: string;
+    tier: Tier;
+    expiresAt: number;
+};
+
+const entries = new Map<string, AffinityEntry>();
+
+/**
+ * Identify a conversation: explicit session header, then the OpenAI `user`
+ * field, then a hash of the message prefix (system prompt + first user
+ * turn), which stays stable as the conversation grows. Keys are scoped to
+ * the calling client.
+ */
+export function getConversationKey(
+    body: ChatCompletionRequest,
+    sessionHeader: string | undefined,
+    client = "anonymous",
+): string {
+    if (sessionHeader) return `${client}:session:${sessionHeader}`;
+    if (typeof body.user === "string" && body.user) return `${client}:user:${body.user}`;
+
+    const firstUser = body.messages.findIndex((m) => m.role === "user");
+    const prefix = body.messages
+        .slice(0, firstUser + 1)
+        .map((m) => `${m.role}\n${contentToText(m.content)}`)
+        .join("\n\n");
+    const hash = createHash("sha256").update(prefix).digest("hex").slice(0, 32);
+    return `${client}:prefix:${hash}`;
+}
+
+export function getAffinity(key: string, now = Date.now()): AffinityEntry | undefined {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+    }
+    return entry;
+}
+
+export function setAffinity(
+    key: string,
+    route: Omit<AffinityEntry, "expiresAt">,
+    ttlSeconds: number,
+    now = Date.now(),
+): void {
+    // Re-insert so Map order tracks recency for eviction
+    entries.delete(key);
+    entries.set(key, { ...route, expiresAt: now + ttlSeconds * 1000 });
+
+    if (entries.size > MAX_ENTRIES) {
+        for (const [k, e] of entries) {
+            if (e.expiresAt <= now) entries.delete(k);
+        }
+        while (entries.size > MAX_ENTRIES) {
+            const oldest = entries.keys().next().value as string;
+            entries.delete(oldest);
+        }
+    }
+}
+
+export function clearAffinity(key: string): void {
+    entries.delete(key);
+}
+
+export function getAffinityCount(): number {
+    return entries.size;
+}
+
+export function higherTier(a: Tier, b: Tier): Tier {
+    return TIER_RANK[a] >= TIER_RANK[b] ? a : b;
+}
+
+/**
+ * Why a pin can no longer serve this request, or null if it still can:
+ * the conversation escalated to a higher tier, the provider went away, or
+ * the pinned model cannot satisfy the request's constraints.
+ */
+export function affinityBreakReason(
+    entry: AffinityEntry,
+    decision: RoutingDecision,
+    availableProviders: Set<string>,
+    options: RouteOptions,
+): string | null {
+    if (TIER_RANK[decision.scoring.tier] > TIER_RANK[entry.tier]) {
+        return `tier escalation ${entry.tier} → ${decision.scoring.tier}`;
+    }
+    if (!availableProviders.has(entry.provider)) {
+        return `${entry.provider} unavailable`;
+    }
+    const info = getModelsForProvider(entry.provider).find((m) => m.id === entry.model);
+    const missing = unmetRequirements(info, options);
+    if (missing.length > 0) {
+        return `${entry.model} lacks ${missing.join(", ")}`;
+    }
+    return null;
+}
+
+/**
+ * Rewrite a decision so the pinned route is tried first; the rest of the
+ * original selection stays behind it as fallbacks.
+ */
+export function applyAffinity(decision: RoutingDecision, entry: AffinityEntry): RoutingDecision {
+    const routes = [
+        { model: decision.selectedModel, provider: decision.selectedProvider },
+        ...decision.fallbackChain,
+    ].filter((r) => r.provider !== "none" && !(r.provider === entry.provider && r.model === entry.model));
+
+    return {
+        ...decision,
+        selectedModel: entry.model,
+        selectedProvider: entry.provider,
+        fallbackChain: routes,
+        reason: `Sticky session (${entry.tier}); ${decision.reason}`,
+    };
+}
@@ -0,0 +1,157 @@
+import type { FailureReason } from "../shared/types.js";
+
+// ── Circuit breaker ─────────────────────────────────────────────────
+// One circuit per provider and one per provider/model, fed by every
+// recorded request. A circuit opens when its rolling error rate crosses the
+// threshold, rejects attempts while open, then lets a single half-open
+// trial request decide whether it closes again.
+//
+// Profile-level failures (rate limits, auth, billing) are handled by the
+// auth store's cooldowns and don't count here.
+
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export type CircuitSnapshot = {
+    key: string;
+    scope: "provider" | "model";
+    state: CircuitState;
+    requests: number;
+    errorRate: number;
+    openedAt?: number;
+    retryAt?: number;
+};
+
+const WINDOW_MS = 60_000;
+const MIN_REQUESTS = 5;
+const ERROR_RATE_THRESHOLD = 0.5;
+const OPEN_MS = 30_000;
+
+const PROVIDER_FAILURES: ReadonlySet<FailureReason> = new Set(["timeout", "unknown"]);
+const MODEL_FAILURES: ReadonlySet<FailureReason> = new Set(["timeout", "unknown", "model_not_found"]);
+
+type Circuit = {
+    scope: "provider" | "model";
+    state: CircuitState;
+    outcomes: Array<{ at: number; ok: boolean }>;
+    openedAt?: number;
+    trialStartedAt?: number;
+};
+
+const circuits = new Map<string, Circuit>();
+
+function circuitFor(key: string, scope: Circuit["scope"]): Circuit {
+    let c = circuits.get(key);
+    if (!c) {
+        c = { scope, state: "CLOSED", outcomes: [] };
+        circuits.set(key, c);
+    }
+    return c;
+}
+
+function prune(c: Circuit, now: number): void {
+    const cutoff = now - WINDOW_MS;
+    while (c.outcomes.length > 0 && c.outcomes[0].at < cutoff) c.outcomes.shift();
+}
+
+function errorRate(c: Circuit): number {
+    if (c.outcomes.length === 0) return 0;
+    return c.outcomes.filter((o) => !o.ok).length / c.outcomes.length;
+}
+
+function record(c: Circuit, ok: boolean | null, now: number): void {
+    if (c.state === "HALF_OPEN") {
+        c.trialStartedAt = undefined;
+        if (ok === true) {
+            c.state = "CLOSED";
+            c.outcomes = [];
+            c.openedAt = undefined;
+        } else if (ok === false) {
+            c.state = "OPEN";
+            c.openedAt = now;
+        }
+        return;
+    }
+    // Late results from requests started before the circuit opened
+    if (c.state === "OPEN" || ok === null) return;
+
+    c.outcomes.push({ at: now, ok });
+    prune(c, now);
+    if (c.outcomes.length >= MIN_REQUESTS && errorRate(c) >= ERROR_RATE_THRESHOLD) {
+        c.state = "OPEN";
+        c.openedAt = now;
+    }
+}
+
+function allows(c: Circuit | undefined, now: number): boolean {
+    if (!c || c.state === "CLOSED") return true;
+    if (c.state === "OPEN") return now - (c.openedAt ?? 0) >= OPEN_MS;
+    // HALF_OPEN: one trial at a time (a stuck trial expires after OPEN_MS)
+    return c.trialStartedAt === undefined || now - c.trialStartedAt >= OPEN_MS;
+}
+
+function claim(c: Circuit | undefined, now: number): void {
+    if (!c || c.state === "CLOSED") return;
+    c.state = "HALF_OPEN";
+    c.trialStartedAt = now;
+}
+
+/**
+ * Feed a finished request into the provider and model circuits.
+ * `reason` is the failure classification; omitted failures count as unknown.
+ */
+export function recordCircuitOutcome(
+    provider: string,
+    model: string,
+    success: boolean,
+    reason?: FailureReason,
+    now = Date.now(),
+): void {
+    if (provider === "router") return;
+    const failure = reason ?? "unknown";
+
+    const providerOk = success ? true : PROVIDER_FAILURES.has(failure) ? false : null;
+    const modelOk = success ? true : MODEL_FAILURES.has(failure) ? false : null;
+
+    record(circuitFor(provider, "provider"), providerOk, now);
+    record(circuitFor(`${provider}/${model}`, "model"), modelOk, now);
+}
+
+/**
+ * True when neither the provider nor the model circuit is rejecting requests.
+ */
+export function isCircuitAvailable(provider: string, model: string, now = Date.now()): boolean {
+    return allows(circuits.get(provider), now) && allows(circuits.get(`${provider}/${model}`), now);
+}
+
+/**
+ * Claim permission to send a request. Open circuits whose wait has elapsed
+ * move to HALF_OPEN and the caller becomes their single trial request.
+ */
+export function tryAcquireCircuit(provider: string, model: string, now = Date.now()): boolean {
+    if (!isCircuitAvailable(provider, model, now)) return false;
+    claim(circuits.get(provider), now);
+    claim(circuits.get(`${provider}/${model}`), now);
+    return true;
+}
+
+export function getCircuitSnapshot(now = Date.now()): CircuitSnapshot[] {
+    const out: CircuitSnapshot[] = [];
+    for (const [key, c] of circuits) {
+        prune(c, now);
+        if (c.state === "CLOSED" && c.outcomes.length === 0) continue;
+        out.push({
+            key,
+            scope: c.scope,
+            state: c.state,
+            requests: c.outcomes.length,
+            errorRate: Number(errorRate(c).toFixed(3)),
+            openedAt: c.openedAt,
+            retryAt: c.state === "OPEN" && c.openedAt ? c.openedAt + OPEN_MS : undefined,
+        });
+    }
+    return out;
+}
+
+export function resetCircuits(): void {
+    circuits.clear();
+}
@@ -0,0 +1,396 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync, statSync, unlinkSync, renameSync } from "node:fs";
+import { join, dirname } from "node:path";
+import type { RoutingConfig, Tier, ModelRoute, UpstreamTimeouts } from "./types.js";
+import { getDefaultConfig } from "./config.js";
+import { createLogger } from "../shared/logger.js";
+
+const logger = createLogger("config");
+
+// ── Config path ─────────────────────────────────────────────────────
+
+// Same convention as the auth store: resolve against process.cwd()
+// because tsup bundles everything into a flat dist/ directory.
+const DEFAULT_CONFIG_PATH = join(process.cwd(), "data", "routing-config.json");
+
+export const ROUTING_CONFIG_VERSION = 1;
+
+const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+export function getRoutingConfigPath(): string {
+    return process.env.SMART_ROUTER_ROUTING_CONFIG ?? DEFAULT_CONFIG_PATH;
+}
+
+/** On-disk shape of the routing config file. */
+export type RoutingConfigFile = {
+    version: number;
+    updatedAt?: number;
+} & Partial<RoutingConfig>;
+
+// ── Validation ──────────────────────────────────────────────────────
+
+/**
+ * Validate a (possibly partial) routing config and merge it over `base`
+ * (the defaults unless given). Throws with a descriptive message on the
+ * first invalid field.
+ */
+export function validateRoutingConfig(raw: unknown, base: RoutingConfig = getDefaultConfig()): RoutingConfig {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+        throw new Error("Routing config must be a JSON object");
+    }
+    const input = raw as Record<string, unknown>;
+    const config = structuredClone(base);
+
+    if (input.version !== undefined) {
+        if (typeof input.version !== "number" || !Number.isInteger(input.version)) {
+            throw new Error("version must be an integer");
+        }
+        if (input.version > ROUTING_CONFIG_VERSION) {
+            throw new Error(
+                `Unsupported routing config version ${input.version} (max ${ROUTING_CONFIG_VERSION})`,
+            );
+        }
+    }
+
+    if (input.weights !== undefined) {
+        if (typeof input.weights !== "object" || input.weights === null || Array.isArray(input.weights)) {
+            throw new Error("weights must be an object of dimension → number");
+        }
+        for (const [dimension, weight] of Object.entries(input.weights)) {
+            if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+                throw new Error(`weights.${dimension} must be a non-negative number`);
+            }
+            config.weights[dimension] = weight;
+        }
+    }
+
+    if (input.tierBoundaries !== undefined) {
+        const boundaries = input.tierBoundaries as Record<string, unknown>;
+        if (typeof boundaries !== "object" || boundaries === null || Array.isArray(boundaries)) {
+            throw new Error("tierBoundaries must be an object keyed by tier");
+        }
+        for (const [tier, value] of Object.entries(boundaries)) {
+            if (!TIERS.includes(tier as Tier)) {
+                throw new Error(`tierBoundaries: unknown tier "${tier}"`);
+            }
+            const b = value as { min?: unknown; max?: unknown } | null;
+            if (typeof b !== "object" || b === null || typeof b.min !== "number") {
+                throw new Error(`tierBoundaries.${tier}.min must be a number`);
+            }
+            // JSON has no Infinity; null (or omitted) max means unbounded
+            const max = b.max === null || b.max === undefined ? Infinity : b.max;
+            if (typeof max !== "number" || max <= b.min) {
+                throw new Error(`tierBoundaries.${tier}.max must be a number greater than min`);
+            }
+            config.tierBoundaries[tier as Tier] = { min: b.min, max };
+        }
+    }
+
+    if (input.tierModels !== undefined) {
+        const tierModels = input.tierModels as Record<string, unknown>;
+        if (typeof tierModels !== "object" || tierModels === null || Array.isArray(tierModels)) {
+            throw new Error("tierModels must be an object keyed by tier");
+        }
+        for (const [tier, routes] of Object.entries(tierModels)) {
+            if (!TIERS.includes(tier as Tier)) {
+                throw new Error(`tierModels: unknown tier "${tier}"`);
+            }
+            if (!Array.isArray(routes) || routes.length === 0) {
+                throw new Error(`tierModels.${tier} must be a non-empty array`);
+            }
+            config.tierModels[tier as Tier] = routes.map((r, i): ModelRoute => {
+                if (
+                    typeof r !== "object" || r === null ||
+                    typeof r.model !== "string" || !r.model ||
+                    typeof r.provider !== "string" || !r.provider
+                ) {
+                    throw new Error(`tierModels.${tier}[${i}] must be { model, provider }`);
+                }
+                return { model: r.model, provider: r.provider };
+            });
+        }
+    }
+
+    if (input.fallbackOrder !== undefined) {
+        if (
+            !Array.isArray(input.fallbackOrder) ||
+            !input.fallbackOrder.every((p) => typeof p === "string" && p)
+        ) {
+            throw new Error("fallbackOrder must be an array of provider IDs");
+        }
+        config.fallbackOrder = [...input.fallbackOrder];
+    }
+
+    if (input.affinity !== undefined) {
+        const affinity = input.affinity as Record<string, unknown>;
+        if (typeof affinity !== "object" || affinity === null || Array.isArray(affinity)) {
+            throw new Error("affinity must be an object");
+        }
+        if (affinity.enabled !== undefined) {
+            if (typeof affinity.enabled !== "boolean") {
+                throw new Error("affinity.enabled must be a boolean");
+            }
+            config.affinity.enabled = affinity.enabled;
+        }
+        if (affinity.ttlSeconds !== undefined) {
+            if (typeof affinity.ttlSeconds !== "number" || !(affinity.ttlSeconds > 0)) {
+                throw new Error("affinity.ttlSeconds must be a positive number");
+            }
+            config.affinity.ttlSeconds = affinity.ttlSeconds;
+        }
+    }
+
+    if (input.timeouts !== undefined) {
+        const timeouts = input.timeouts as Record<string, unknown>;
+        if (typeof timeouts !== "object" || timeouts === null || Array.isArray(timeouts)) {
+            throw new Error("timeouts must be an object");
+        }
+        if (timeouts.default !== undefined) {
+            Object.assign(config.timeouts.default, parseTimeouts(timeouts.default, "timeouts.default"));
+        }
+        if (timeouts.providers !== undefined) {
+            const providers = timeouts.providers as Record<string, unknown>;
+            if (typeof providers !== "object" || providers === null || Array.isArray(providers)) {
+                throw new Error("timeouts.providers must be an object keyed by provider ID");
+            }
+            for (const [provider, value] of Object.entries(providers)) {
+                config.timeouts.providers[provider] = {
+                    ...config.timeouts.providers[provider],
+                    ...parseTimeouts(value, `timeouts.providers.${provider}`),
+                };
+            }
+        }
+    }
+
+    if (input.hedging !== undefined) {
+        const hedging = input.hedging as Record<string, unknown>;
+        if (typeof hedging !== "object" || hedging === null || Array.isArray(hedging)) {
+            throw new Error("hedging must be an object");
+        }
+        if (hedging.enabled !== undefined) {
+            if (typeof hedging.enabled !== "boolean") {
+                throw new Error("hedging.enabled must be a boolean");
+            }
+            config.hedging.enabled = hedging.enabled;
+        }
+        if (hedging.tiers !== undefined) {
+            if (!Array.isArray(hedging.tiers) || !hedging.tiers.every((t) => TIERS.includes(t))) {
+                throw new Error(`hedging.tiers must be an array of ${TIERS.join(" / ")}`);
+            }
+            config.hedging.tiers = [...hedging.tiers];
+        }
+        if (hedging.thresholdMs !== undefined) {
+            const thresholds = hedging.thresholdMs as Record<string, unknown>;
+            if (typeof thresholds !== "object" || thresholds === null || Array.isArray(thresholds)) {
+                throw new Error("hedging.thresholdMs must be an object keyed by tier");
+            }
+            for (const [tier, ms] of Object.entries(thresholds)) {
+                if (!TIERS.includes(tier as Tier)) {
+                    throw new Error(`hedging.thresholdMs: unknown tier "${tier}"`);
+                }
+                if (typeof ms !== "number" || !Number.isFinite(ms) || ms < 0) {
+                    throw new Error(`hedging.thresholdMs.${tier} must be a non-negative number`);
+                }
+                config.hedging.thresholdMs[tier as Tier] = ms;
+            }
+        }
+    }
+
+    if (input.queue !== undefined) {
+        const queue = input.queue as Record<string, unknown>;
+        if (typeof queue !== "object" || queue === null || Array.isArray(queue)) {
+            throw new Error("queue must be an object");
+        }
+        if (queue.maxWaitSeconds !== undefined) {
+            if (typeof queue.maxWaitSeconds !== "number" || !(queue.maxWaitSeconds >= 0)) {
+                throw new Error("queue.maxWaitSeconds must be a non-negative number");
+            }
+            config.queue.maxWaitSeconds = queue.maxWaitSeconds;
+        }
+        if (queue.maxDepth !== undefined) {
+            if (!Number.isInteger(queue.maxDepth) || (queue.maxDepth as number) < 0) {
+                throw new Error("queue.maxDepth must be a non-negative integer");
+            }
+            config.queue.maxDepth = queue.maxDepth as number;
+        }
+    }
+
+    if (input.concurrency !== undefined) {
+        const concurrency = input.concurrency as Record<string, unknown>;
+        if (typeof concurrency !== "object" || concurrency === null || Array.isArray(concurrency)) {
+            throw new Error("concurrency must be an object");
+        }
+        if (concurrency.maxConcurrent !== undefined) {
+            if (!Number.isInteger(concurrency.maxConcurrent) || (concurrency.maxConcurrent as number) < 0) {
+                throw new Error("concurrency.maxConcurrent must be a non-negative integer (0 = unlimited)");
+            }
+            config.concurrency.maxConcurrent = concurrency.maxConcurrent as number;
+        }
+        if (concurrency.providers !== undefined) {
+            const providers = concurrency.providers as Record<string, unknown>;
+            if (typeof providers !== "object" || providers === null || Array.isArray(providers)) {
+                throw new Error("concurrency.providers must be an object keyed by provider ID");
+            }
+            for (const [provider, value] of Object.entries(providers)) {
+                if (!Number.isInteger(value) || (value as number) < 0) {
+                    throw new Error(`concurrency.providers.${provider} must be a non-negative integer`);
+                }
+                config.concurrency.providers[provider] = value as number;
+            }
+        }
+    }
+
+    if (input.capture !== undefined) {
+        const capture = input.capture as Record<string, unknown>;
+        if (typeof capture !== "object" || capture === null || Array.isArray(capture)) {
+            throw new Error("capture must be an object");
+        }
+        for (const field of ["enabled", "redactSecrets"] as const) {
+            if (capture[field] !== undefined) {
+                if (typeof capture[field] !== "boolean") {
+                    throw new Error(`capture.${field} must be a boolean`);
+                }
+                config.capture[field] = capture[field] as boolean;
+            }
+        }
+        if (capture.sink !== undefined) {
+            if (capture.sink !== "sqlite" && capture.sink !== "jsonl") {
+                throw new Error(`capture.sink must be "sqlite" or "jsonl"`);
+            }
+            config.capture.sink = capture.sink;
+        }
+        for (const field of ["maxPayloadBytes", "jsonlMaxFileBytes"] as const) {
+            if (capture[field] !== undefined) {
+                if (!Number.isInteger(capture[field]) || (capture[field] as number) <= 0) {
+                    throw new Error(`capture.${field} must be a positive integer`);
+                }
+                config.capture[field] = capture[field] as number;
+            }
+        }
+        if (capture.retentionDays !== undefined) {
+            if (typeof capture.retentionDays !== "number" || !(capture.retentionDays > 0)) {
+                throw new Error("capture.retentionDays must be a positive number");
+            }
+            config.capture.retentionDays = capture.retentionDays;
+        }
+        if (capture.redactPatterns !== undefined) {
+            if (!Array.isArray(capture.redactPatterns) || !capture.redactPatterns.every((p) => typeof p === "string")) {
+                throw new Error("capture.redactPatterns must be an array of regex strings");
+            }
+            for (const pattern of capture.redactPatterns) {
+                try {
+                    new RegExp(pattern, "g");
+                } catch (err: any) {
+                    throw new Error(`capture.redactPatterns: invalid regex ${JSON.stringify(pattern)}: ${err.message}`);
+                }
+            }
+            config.capture.redactPatterns = [...capture.redactPatterns];
+        }
+    }
+
+    return config;
+}
+
+const TIMEOUT_FIELDS: Array<keyof UpstreamTimeouts> = ["connectMs", "firstTokenMs", "idleMs", "totalMs"];
+
+function parseTimeouts(raw: unknown, path: string): Partial<UpstreamTimeouts> {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+        throw new Error(`${path} must be an object`);
+    }
+    const out: Partial<UpstreamTimeouts> = {};
+    for (const [field, value] of Object.entries(raw)) {
+        if (!TIMEOUT_FIELDS.includes(field as keyof UpstreamTimeouts)) {
+            throw new Error(`${path}: unknown field "${field}"`);
+        }
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+            throw new Error(`${path}.${field} must be a non-negative number of ms (0 disables)`);
+        }
+        out[field as keyof UpstreamTimeouts] = value;
+    }
+    return out;
+}
+
+// ── Load / Save ─────────────────────────────────────────────────────
+
+let cached: RoutingConfig | null = null;
+let cachedMtimeMs = -1;
+
+/**
+ * Read and validate the routing config file.
+ * Returns defaults when the file does not exist.
+ */
+export function loadRoutingConfig(): RoutingConfig {
+    const path = getRoutingConfigPath();
+    if (!existsSync(path)) return getDefaultConfig();
+    const raw = JSON.parse(readFileSync(path, "utf8"));
+    return validateRoutingConfig(raw);
+}
+
+/**
+ * Current routing config. The file's mtime is checked on every call, so edits
+ * (from the API or by hand) are picked up without restarting the server.
+ * An invalid file is logged and the last good config is kept.
+ */
+export function getRoutingConfig(): RoutingConfig {
+    const path = getRoutingConfigPath();
+    let mtimeMs = 0;
+    try {
+        mtimeMs = existsSync(path) ? statSync(path).mtimeMs : 0;
+    } catch {
+        mtimeMs = 0;
+    }
+
+    if (!cached || mtimeMs !== cachedMtimeMs) {
+        try {
+            const next = loadRoutingConfig();
+            if (cached && mtimeMs !== 0) {
+                logger.info(`[RoutingConfig] Reloaded from ${path}`);
+            }
+            cached = next;
+        } catch (err: any) {
+            logger.error(`[RoutingConfig] Invalid config at ${path}: ${err?.message ?? err}`);
+            if (!cached) cached = getDefaultConfig();
+        }
+        cachedMtimeMs = mtimeMs;
+    }
+
+    return structuredClone(cached);
+}
+
+/**
+ * Validate and persist a routing config. A partial body is merged over the
+ * current config, so sections it omits keep their saved values. Returns the
+ * merged, saved config.
+ */
+export function saveRoutingConfig(raw: unknown): RoutingConfig {
+    const config = validateRoutingConfig(raw, getRoutingConfig());
+    const path = getRoutingConfigPath();
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    const file: RoutingConfigFile = {
+        version: ROUTING_CONFIG_VERSION,
+        updatedAt: Date.now(),
+        ...config,
+    };
+    // Write-then-rename so the hot-reload check never reads a half-written file
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(file, null, 2) + "\n", "utf8");
+    renameSync(tmp, path);
+
+    cached = config;
+    cachedMtimeMs = statSync(path).mtimeMs;
+    logger.ok(`[RoutingConfig] Saved to ${path}`);
+    return structuredClone(config);
+}
+
+/** Delete the routing config file, reverting to built-in defaults. */
+export function resetRoutingConfig(): RoutingConfig {
+    const path = getRoutingConfigPath();
+    if (existsSync(path)) unlinkSync(path);
+    cached = null;
+    cachedMtimeMs = -1;
+    logger.info(`[RoutingConfig] Reset to defaults`);
+    return getDefaultConfig();
+}
@@ -1,4 +1,4 @@
-import type { RoutingConfig, Tier, ModelRoute } from "./types.js";
+import type { RoutingConfig, Tier, ModelRoute, TimeoutConfig, HedgingConfig, QueueConfig, ConcurrencyConfig, CaptureConfig } from "./types.js";
 
 // ── 14 Dimension keyword lists ──────────────────────────────────────
 
@@ -86,6 +86,9 @@ const DEFAULT_WEIGHTS: Record<string, number> = {
     conversation: 0.5,
     summarization: 1.0,
     multimodal: 2.0,
+    // Structural dimensions scored by classifyConversation
+    conversation_length: 1.0,
+    tool_use: 1.5,
 };
 
 // ── Tier boundaries ─────────────────────────────────────────────────
@@ -153,6 +156,66 @@ const DEFAULT_FALLBACK_ORDER = [
     "qwen-dashscope",
 ];
 
+// ── Session affinity ────────────────────────────────────────────────
+
+const DEFAULT_AFFINITY = {
+    enabled: true,
+    ttlSeconds: 30 * 60,
+};
+
+// ── Upstream timeouts ───────────────────────────────────────────────
+
+const DEFAULT_TIMEOUTS: TimeoutConfig = {
+    default: {
+        connectMs: 15_000,
+        firstTokenMs: 60_000,
+        idleMs: 30_000,
+        totalMs: 10 * 60_000,
+    },
+    // Thinking models can stay silent for minutes before the first token
+    providers: {
+        antigravity: { firstTokenMs: 180_000 },
+        "openai-codex": { firstTokenMs: 180_000 },
+        anthropic: { firstTokenMs: 120_000 },
+    },
+};
+
+// ── Hedged requests ─────────────────────────────────────────────────
+
+// Opt-in: hedging trades (usually free-tier) tokens for latency
+const DEFAULT_HEDGING: HedgingConfig = {
+    enabled: false,
+    tiers: ["SIMPLE"],
+    thresholdMs: {},
+};
+
+// ── Cooldown wait queue ─────────────────────────────────────────────
+
+const DEFAULT_QUEUE: QueueConfig = {
+    maxWaitSeconds: 120,
+    maxDepth: 20,
+};
+
+// ── Per-profile concurrency ─────────────────────────────────────────
+
+const DEFAULT_CONCURRENCY: ConcurrencyConfig = {
+    maxConcurrent: 0,
+    providers: {},
+};
+
+// ── Payload capture ─────────────────────────────────────────────────
+
+// Opt-in: captured prompts and responses may hold sensitive data
+const DEFAULT_CAPTURE: CaptureConfig = {
+    enabled: false,
+    sink: "sqlite",
+    maxPayloadBytes: 256 * 1024,
+    retentionDays: 7,
+    redactSecrets: true,
+    redactPatterns: [],
+    jsonlMaxFileBytes: 50 * 1024 * 1024,
+};
+
 // ── Export ───────────────────────────────────────────────────────────
 
 export const DIMENSION_KEYWORD_MAP = DIMENSION_KEYWORDS;
@@ -163,5 +226,11 @@ export function getDefaultConfig(): RoutingConfig {
         tierBoundaries: structuredClone(DEFAULT_TIER_BOUNDARIES),
         tierModels: structuredClone(DEFAULT_TIER_MODELS),
         fallbackOrder: [...DEFAULT_FALLBACK_ORDER],
+        affinity: { ...DEFAULT_AFFINITY },
+        timeouts: structuredClone(DEFAULT_TIMEOUTS),
+        hedging: structuredClone(DEFAULT_HEDGING),
+        queue: { ...DEFAULT_QUEUE },
+        concurrency: structuredClone(DEFAULT_CONCURRENCY),
+        capture: structuredClone(DEFAULT_CAPTURE),
     };
 }
@@ -1,6 +1,16 @@
-export { classifyByRules } from "./rules.js";
+export { classifyByRules, classifyConversation } from "./rules.js";
 export { selectModel, getNextFallback } from "./selector.js";
+export { requirementsFromRequest, unmetRequirements, completionBudget } from "./requirements.js";
 export { getDefaultConfig, DIMENSION_KEYWORD_MAP } from "./config.js";
+export {
+    getRoutingConfig,
+    loadRoutingConfig,
+    saveRoutingConfig,
+    resetRoutingConfig,
+    validateRoutingConfig,
+    getRoutingConfigPath,
+    ROUTING_CONFIG_VERSION,
+} from "./config-store.js";
 export type {
     Tier,
     ScoringResult,
@@ -8,11 +18,15 @@ export type {
     RoutingDecision,
     ModelRoute,
     RoutingConfig,
+    RouteOptions,
+    ExcludedRoute,
 } from "./types.js";
 
-import { classifyByRules } from "./rules.js";
+import { classifyByRules, classifyConversation } from "./rules.js";
 import { selectModel } from "./selector.js";
-import type { RoutingDecision } from "./types.js";
+import { requirementsFromRequest } from "./requirements.js";
+import type { ChatCompletionRequest } from "../shared/types.js";
+import type { RouteOptions, RoutingDecision } from "./types.js";
 
 /**
  * Main routing entry point: classify prompt → select model.
@@ -20,7 +34,21 @@ import type { RoutingDecision } from "./types.js";
 export function route(
     prompt: string,
     availableProviders: Set<string>,
+    options: RouteOptions = {},
 ): RoutingDecision {
     const scoring = classifyByRules(prompt);
-    return selectModel(scoring, availableProviders);
+    return selectModel(scoring, availableProviders, undefined, options);
+}
+
+/**
+ * Route a full chat request: classify the whole conversation (system prompt,
+ * tools, recent turns) → select a model satisfying the request's constraints.
+ */
+export function routeRequest(
+    body: ChatCompletionRequest,
+    availableProviders: Set<string>,
+    options: RouteOptions = requirementsFromRequest(body),
+): RoutingDecision {
+    const scoring = classifyConversation(body.messages, { tools: body.tools });
+    return selectModel(scoring, availableProviders, undefined, options);
 }
@@ -0,0 +1,55 @@
+import type { ModelInfo } from "../models/registry.js";
+import { createPromptEstimator } from "../models/tokens.js";
+import type { ChatCompletionRequest } from "../shared/types.js";
+import { hasImageContent } from "../shared/content.js";
+import type { RouteOptions } from "./types.js";
+
+// ── Request → routing constraints ───────────────────────────────────
+
+/**
+ * Derive hard routing constraints from a chat completion request.
+ */
+export function requirementsFromRequest(body: ChatCompletionRequest): RouteOptions {
+    const thinking = body.thinking as { type?: string } | undefined;
+    return {
+        hasImages: hasImageContent(body.messages),
+        hasTools: (body.tools?.length ?? 0) > 0,
+        responseFormat: body.response_format != null,
+        thinking:
+            body.reasoning_effort != null ||
+            body.reasoning != null ||
+            body.enable_thinking === true ||
+            thinking?.type === "enabled",
+        promptTokens: createPromptEstimator(body),
+        maxTokens: body.max_tokens,
+    };
+}
+
+/**
+ * Completion tokens to reserve in the context window: max_tokens, capped at
+ * the model's output limit.
+ */
+export function completionBudget(model: ModelInfo, maxTokens: number | undefined): number {
+    if (maxTokens == null) return 0;
+    return model.maxOutput != null ? Math.min(maxTokens, model.maxOutput) : maxTokens;
+}
+
+/**
+ * List the constraints a model cannot satisfy. Models missing from the
+ * registry have unknown capabilities and fail every active capability
+ * constraint; their context window is not checked.
+ */
+export function unmetRequirements(model: ModelInfo | undefined, options: RouteOptions): string[] {
+    const missing: string[] = [];
+    const has = (cap: string) => model?.capabilities.includes(cap) ?? false;
+
+    if (options.hasImages && !has("vision")) missing.push("vision");
+    if (options.hasTools && !has("tools")) missing.push("tools");
+    if (options.responseFormat && !has("json_mode")) missing.push("json_mode");
+    if (options.thinking && !has("thinking")) missing.push("thinking");
+    if (model && options.promptTokens) {
+        const needed = options.promptTokens(model) + completionBudget(model, options.maxTokens);
+        if (needed > model.contextWindow) missing.push("context");
+    }
+    return missing;
+}
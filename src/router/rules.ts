@@ -1,5 +1,57 @@
 import type { DimensionScore, ScoringResult, Tier } from "./types.js";
-import { DIMENSION_KEYWORD_MAP, getDefaultConfig } from "./config.js";
+import type { ChatMessage, ToolDefinition } from "../shared/types.js";
+import { contentToText } from "../shared/content.js";
+import { estimateTextTokens } from "../models/tokens.js";
+import { DIMENSION_KEYWORD_MAP } from "./config.js";
+import { getRoutingConfig } from "./config-store.js";
+
+// ── Keyword matching ────────────────────────────────────────────────
+
+const keywordPatterns = new Map<string, RegExp>();
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function keywordMatches(text: string, kw: string): boolean {
+  let pattern = keywordPatterns.get(kw);
+  if (!pattern) {
+    pattern = new RegExp(`\\b${escapeRegex(kw)}\\b`, "i");
+    keywordPatterns.set(kw, pattern);
+  }
+  return pattern.test(text);
+}
+
+function tierForScore(
+  totalScore: number,
+  boundaries: Record<Tier, { min: number; max: number }>
+): Tier {
+  for (const [t, { min, max }] of Object.entries(boundaries) as [
+    Tier,
+    { min: number; max: number }
+  ][]) {
+    if (totalScore >= min && totalScore < max) return t;
+  }
+  return "SIMPLE";
+}
+
+function finalize(
+  dimensions: DimensionScore[],
+  boundaries: Record<Tier, { min: number; max: number }>
+): ScoringResult {
+  const totalScore = dimensions.reduce((s, d) => s + d.score, 0);
+
+  // Sort by score descending
+  dimensions.sort((a, b) => b.score - a.score);
+
+  const tier = tierForScore(totalScore, boundaries);
+
+  // Confidence: how concentrated the score is in top dimensions
+  const topScore = dimensions.slice(0, 3).reduce((s, d) => s + d.score, 0);
+  const confidence = totalScore > 0 ? Math.min(1, topScore / totalScore) : 0.5;
+
+  return { tier, totalScore, dimensions, confidence };
+}
 
 /**
  * Score a prompt across 14 dimensions and classify into a tier.
@@ -10,59 +62,152 @@ export function classifyByRules(
   weights?: Record<string, number>,
   tierBoundaries?: Record<Tier, { min: number; max: number }>
 ): ScoringResult {
-  const config = getDefaultConfig();
+  const config = getRoutingConfig();
   const w = weights ?? config.weights;
   const boundaries = tierBoundaries ?? config.tierBoundaries;
 
-  const original = prompt;
   const dimensions: DimensionScore[] = [];
-  let totalScore = 0;
-
-  function escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  }
-
-  function keywordMatches(text: string, kw: string): boolean {
-    const pattern = new RegExp(`\\b${escapeRegex(kw)}\\b`, "i");
-    return pattern.test(text);
-  }
 
   for (const [dimension, keywords] of Object.entries(DIMENSION_KEYWORD_MAP)) {
     const matched: string[] = [];
     for (const kw of keywords) {
-      if (keywordMatches(original, kw)) {
+      if (keywordMatches(prompt, kw)) {
         matched.push(kw);
       }
     }
     const weight = w[dimension] ?? 1.0;
-    const rawScore = matched.length * weight;
 
     dimensions.push({
       dimension,
-      score: rawScore,
+      score: matched.length * weight,
       matchedKeywords: matched,
     });
-    totalScore += rawScore;
   }
 
-  // Sort by score descending
-  dimensions.sort((a, b) => b.score - a.score);
+  return finalize(dimensions, boundaries);
+}
 
-  // Determine tier
-  let tier: Tier = "SIMPLE";
-  for (const [t, { min, max }] of Object.entries(boundaries) as [
-    Tier,
-    { min: number; max: number }
-  ][]) {
-    if (totalScore >= min && totalScore < max) {
-      tier = t;
-      break;
+// ── Whole-conversation classification ───────────────────────────────
+
+// Each user turn further back counts this much less than the one after it
+const TURN_DECAY = 0.5;
+// Turns weighted below this are ignored
+const MIN_TURN_WEIGHT = 0.1;
+// Assistant / tool output says less about the task than the user's words
+const ASSISTANT_FACTOR = 0.5;
+const SYSTEM_WEIGHT = 0.3;
+const TOOLS_WEIGHT = 0.3;
+// Conversation length: one point per doubling past this many tokens
+const LENGTH_BASE_TOKENS = 2000;
+const MAX_LENGTH_SCORE = 4;
+
+type Segment = { text: string; weight: number };
+
+function conversationSegments(messages: ChatMessage[], tools?: ToolDefinition[]): Segment[] {
+  const segments: Segment[] = [];
+
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => contentToText(m.content))
+    .join("\n");
+  if (system) segments.push({ text: system, weight: SYSTEM_WEIGHT });
+
+  if (tools?.length) {
+    const text = tools
+      .map((t) => `${t.function.name} ${t.function.description ?? ""}`)
+      .join("\n");
+    segments.push({ text, weight: TOOLS_WEIGHT });
+  }
+
+  // Walk backwards; the latest user turn (and anything after it) weighs 1.0
+  let turnWeight = 1;
+  let seenUser = false;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role === "system") continue;
+    if (m.role === "user") {
+      if (seenUser) turnWeight *= TURN_DECAY;
+      seenUser = true;
     }
+    if (turnWeight < MIN_TURN_WEIGHT) break;
+
+    const text = contentToText(m.content);
+    if (!text) continue;
+    segments.push({
+      text,
+      weight: m.role === "user" ? turnWeight : turnWeight * ASSISTANT_FACTOR,
+    });
   }
 
-  // Confidence: how concentrated the score is in top dimensions
-  const topScore = dimensions.slice(0, 3).reduce((s, d) => s + d.score, 0);
-  const confidence = totalScore > 0 ? Math.min(1, topScore / totalScore) : 0.5;
+  return segments;
+}
 
-  return { tier, totalScore, dimensions, confidence };
+/**
+ * Classify a whole conversation. Keywords count with the weight of the most
+ * recent turn they appear in, so a terse follow-up inherits the context of
+ * the discussion before it. The system prompt and tool definitions count at
+ * a reduced weight, and long conversations / tool use add their own
+ * dimensions. Produces the same ScoringResult as classifyByRules.
+ */
+export function classifyConversation(
+  messages: ChatMessage[],
+  options: {
+    tools?: ToolDefinition[];
+    weights?: Record<string, number>;
+    tierBoundaries?: Record<Tier, { min: number; max: number }>;
+  } = {}
+): ScoringResult {
+  const config = getRoutingConfig();
+  const w = options.weights ?? config.weights;
+  const boundaries = options.tierBoundaries ?? config.tierBoundaries;
+
+  const segments = conversationSegments(messages, options.tools);
+  const dimensions: DimensionScore[] = [];
+
+  for (const [dimension, keywords] of Object.entries(DIMENSION_KEYWORD_MAP)) {
+    const matched: string[] = [];
+    let raw = 0;
+    for (const kw of keywords) {
+      let best = 0;
+      for (const seg of segments) {
+        if (seg.weight > best && keywordMatches(seg.text, kw)) best = seg.weight;
+      }
+      if (best > 0) {
+        matched.push(kw);
+        raw += best;
+      }
+    }
+
+    dimensions.push({
+      dimension,
+      score: raw * (w[dimension] ?? 1.0),
+      matchedKeywords: matched,
+    });
+  }
+
+  // Length: long transcripts need models that keep track of context
+  const turns = messages.filter((m) => m.role !== "system").length;
+  const tokens = messages.reduce(
+    (sum, m) => sum + estimateTextTokens(contentToText(m.content)),
+    0
+  );
+  const lengthScore =
+    tokens > LENGTH_BASE_TOKENS
+      ? Math.min(MAX_LENGTH_SCORE, Math.log2(tokens / LENGTH_BASE_TOKENS) + 1)
+      : 0;
+  dimensions.push({
+    dimension: "conversation_length",
+    score: lengthScore * (w.conversation_length ?? 1.0),
+    matchedKeywords: lengthScore > 0 ? [`${turns} turns`, `~${tokens} tokens`] : [],
+  });
+
+  // Tool use: agentic requests are multi-step by nature
+  const toolCount = options.tools?.length ?? 0;
+  dimensions.push({
+    dimension: "tool_use",
+    score: toolCount > 0 ? w.tool_use ?? 1.0 : 0,
+    matchedKeywords: toolCount > 0 ? [`${toolCount} tools`] : [],
+  });
+
+  return finalize(dimensions, boundaries);
 }
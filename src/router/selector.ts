@@ -1,22 +1,56 @@
-import type { ModelRoute, RoutingDecision, ScoringResult } from "./types.js";
-import { getDefaultConfig } from "./config.js";
+import type {
+    ExcludedRoute,
+    ModelRoute,
+    RouteOptions,
+    RoutingConfig,
+    RoutingDecision,
+    ScoringResult,
+} from "./types.js";
+import { getRoutingConfig } from "./config-store.js";
+import { unmetRequirements } from "./requirements.js";
+import { getAllModels, getModelsForProvider } from "../models/registry.js";
+import type { ModelInfo } from "../models/registry.js";
+
+function lookupModel(route: ModelRoute): ModelInfo | undefined {
+    return getModelsForProvider(route.provider).find((m) => m.id === route.model);
+}
+
+function describeExclusions(excluded: ExcludedRoute[]): string {
+    return excluded
+        .map((r) => `${r.provider}/${r.model} (${r.missing.join(", ")})`)
+        .join(", ");
+}
 
 /**
  * Select the best model for a scoring result, considering which providers are available.
+ * Candidates that cannot satisfy the request's constraints (`options`) are skipped
+ * and listed in `excluded`.
  */
 export function selectModel(
     scoring: ScoringResult,
     availableProviders: Set<string>,
+    config: RoutingConfig = getRoutingConfig(),
+    options: RouteOptions = {},
 ): RoutingDecision {
-    const config = getDefaultConfig();
     const tierModels = config.tierModels[scoring.tier];
 
+    const excluded: ExcludedRoute[] = [];
+    const usable = (route: ModelRoute): boolean => {
+        if (!availableProviders.has(route.provider)) return false;
+        const missing = unmetRequirements(lookupModel(route), options);
+        if (missing.length === 0) return true;
+        if (!excluded.some((e) => e.provider === route.provider && e.model === route.model)) {
+            excluded.push({ ...route, missing });
+        }
+        return false;
+    };
+
     // Find the first available model in this tier
     let selected: ModelRoute | null = null;
     const fallbackChain: ModelRoute[] = [];
 
     for (const route of tierModels) {
-        if (availableProviders.has(route.provider)) {
+        if (usable(route)) {
             if (!selected) {
                 selected = route;
             } else {
@@ -31,7 +65,7 @@ export function selectModel(
         for (const tier of tierOrder) {
             if (tier === scoring.tier) continue;
             for (const route of config.tierModels[tier]) {
-                if (availableProviders.has(route.provider)) {
+                if (usable(route)) {
                     if (!selected) {
                         selected = route;
                     } else {
@@ -43,6 +77,21 @@ export function selectModel(
         }
     }
 
+    // Constraints ruled out every tier model: use any registry model that fits
+    if (!selected && excluded.length > 0) {
+        for (const model of getAllModels()) {
+            if (model.provider === "router") continue;
+            if (!availableProviders.has(model.provider)) continue;
+            if (unmetRequirements(model, options).length > 0) continue;
+            const route = { model: model.id, provider: model.provider };
+            if (!selected) {
+                selected = route;
+            } else {
+                fallbackChain.push(route);
+            }
+        }
+    }
+
     // Also add fallback order providers not yet in chain
     const usedProviders = new Set<string>();
     if (selected) usedProviders.add(selected.provider);
@@ -52,7 +101,7 @@ export function selectModel(
         if (!usedProviders.has(provider) && availableProviders.has(provider)) {
             // Find any model for this provider from any tier
             for (const tier of Object.values(config.tierModels)) {
-                const route = tier.find((r) => r.provider === provider);
+                const route = tier.find((r) => r.provider === provider && usable(r));
                 if (route) {
                     fallbackChain.push(route);
                     usedProviders.add(provider);
@@ -68,16 +117,23 @@ export function selectModel(
             selectedModel: "none",
             selectedProvider: "none",
             fallbackChain: [],
-            reason: "No available providers configured",
+            reason: excluded.length > 0
+                ? `No available model satisfies the request; excluded ${describeExclusions(excluded)}`
+                : "No available providers configured",
+            excluded,
         };
     }
 
+    let reason = `Tier ${scoring.tier} (score: ${scoring.totalScore.toFixed(1)}, confidence: ${(scoring.confidence * 100).toFixed(0)}%)`;
+    if (excluded.length > 0) reason += `; excluded ${describeExclusions(excluded)}`;
+
     return {
         scoring,
         selectedModel: selected.model,
         selectedProvider: selected.provider,
         fallbackChain,
-        reason: `Tier ${scoring.tier} (score: ${scoring.totalScore.toFixed(1)}, confidence: ${(scoring.confidence * 100).toFixed(0)}%)`,
+        reason,
+        excluded,
     };
 }
 
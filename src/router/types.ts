@@ -1,3 +1,5 @@
+import type { ModelInfo } from "../models/registry.js";
+
 /** Complexity tier for routing decisions */
 export type Tier = "SIMPLE" | "MEDIUM" | "COMPLEX" | "REASONING";
 
@@ -23,8 +25,29 @@ export type RoutingDecision = {
     selectedProvider: string;
     fallbackChain: Array<{ model: string; provider: string }>;
     reason: string;
+    /** Candidates filtered out by RouteOptions constraints */
+    excluded?: ExcludedRoute[];
+};
+
+/** Request traits that constrain model selection (hard constraints) */
+export type RouteOptions = {
+    /** Request carries image content parts → `vision` */
+    hasImages?: boolean;
+    /** Request defines tools → `tools` */
+    hasTools?: boolean;
+    /** Request sets response_format → `json_mode` */
+    responseFormat?: boolean;
+    /** Request asks for reasoning / extended thinking → `thinking` */
+    thinking?: boolean;
+    /** Per-model prompt size estimate; prompt + `maxTokens` must fit `contextWindow` */
+    promptTokens?: (model: ModelInfo) => number;
+    /** Requested completion budget (max_tokens), capped at `maxOutput` */
+    maxTokens?: number;
 };
 
+/** A candidate dropped because it cannot satisfy the request */
+export type ExcludedRoute = ModelRoute & { missing: string[] };
+
 /** Provider + model pair */
 export type ModelRoute = {
     model: string;
@@ -37,4 +60,82 @@ export type RoutingConfig = {
     tierBoundaries: Record<Tier, { min: number; max: number }>;
     tierModels: Record<Tier, ModelRoute[]>;
     fallbackOrder: string[];
+    /** Conversation-sticky routing (see affinity.ts) */
+    affinity: AffinityConfig;
+    /** Upstream request deadlines (see server/upstream-guard.ts) */
+    timeouts: TimeoutConfig;
+    /** Parallel backup attempts for slow primaries (see server/hedge.ts) */
+    hedging: HedgingConfig;
+    /** Waiting out cooldowns instead of an immediate 429 (see server/wait-queue.ts) */
+    queue: QueueConfig;
+    /** In-flight requests allowed per profile (see auth/store.ts) */
+    concurrency: ConcurrencyConfig;
+    /** Request/response payload capture (see storage/captures.ts) */
+    capture: CaptureConfig;
+};
+
+/** Session affinity settings */
+export type AffinityConfig = {
+    enabled: boolean;
+    /** How long a conversation stays pinned after its last request */
+    ttlSeconds: number;
+};
+
+/** Deadlines for one upstream attempt, in ms; 0 disables a deadline */
+export type UpstreamTimeouts = {
+    /** Until response headers arrive */
+    connectMs: number;
+    /** From headers to the first content delta (streaming) */
+    firstTokenMs: number;
+    /** Longest gap between chunks once tokens are flowing */
+    idleMs: number;
+    /** Whole attempt, start to finish */
+    totalMs: number;
+};
+
+/** Default deadlines plus per-provider overrides */
+export type TimeoutConfig = {
+    default: UpstreamTimeouts;
+    providers: Record<string, Partial<UpstreamTimeouts>>;
+};
+
+/** Hedged request settings */
+export type HedgingConfig = {
+    enabled: boolean;
+    /** Tiers whose auto-routed requests get hedged */
+    tiers: Tier[];
+    /** Wait before firing the backup; tiers left out use the observed p90 latency */
+    thresholdMs: Partial<Record<Tier, number>>;
+};
+
+/** Cooldown wait queue limits */
+export type QueueConfig = {
+    /** Upper bound on the wait a client may ask for */
+    maxWaitSeconds: number;
+    /** Waiting requests allowed per provider/model */
+    maxDepth: number;
+};
+
+/** Per-profile concurrency caps; 0 means unlimited */
+export type ConcurrencyConfig = {
+    maxConcurrent: number;
+    /** Overrides for every profile of a provider */
+    providers: Record<string, number>;
+};
+
+/** Payload capture settings; an API key's own capture flag overrides `enabled` */
+export type CaptureConfig = {
+    enabled: boolean;
+    /** "sqlite": captures table in the stats database; "jsonl": daily files under data/captures */
+    sink: "sqlite" | "jsonl";
+    /** Cap per captured field (request, response, errors); longer ones are truncated */
+    maxPayloadBytes: number;
+    /** Captures older than this are deleted */
+    retentionDays: number;
+    /** Mask API keys, tokens and private keys with the built-in detectors */
+    redactSecrets: boolean;
+    /** Extra regexes whose matches are masked */
+    redactPatterns: string[];
+    /** JSONL files roll over to a numbered sibling past this size */
+    jsonlMaxFileBytes: number;
 };
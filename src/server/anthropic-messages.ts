@@ -0,0 +1,477 @@
+import type { ServerResponse } from "node:http";
+import type {
+    ChatCompletionRequest,
+    ChatCompletionResponse,
+    ChatMessage,
+    ContentPart,
+    ToolChoice,
+} from "../shared/types.js";
+import type { ResponseSink } from "./proxy-upstream.js";
+
+// ── Anthropic Messages ingress (/v1/messages) ───────────────────────
+// Converts Anthropic-shaped client requests into the internal
+// ChatCompletionRequest, and OpenAI-shaped output back into Anthropic
+// messages / SSE events. The provider side of the translation lives in
+// providers/anthropic.ts.
+
+type AnthropicBlock = {
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    tool_use_id?: string;
+    content?: string | AnthropicBlock[];
+    source?: { type: "base64" | "url"; media_type?: string; data?: string; url?: string };
+};
+
+type AnthropicRequest = {
+    model?: string;
+    system?: string | AnthropicBlock[];
+    messages?: Array<{ role: "user" | "assistant"; content: string | AnthropicBlock[] }>;
+    max_tokens?: number;
+    temperature?: number;
+    top_p?: number;
+    stop_sequences?: string[];
+    stream?: boolean;
+    tools?: Array<{ name: string; description?: string; input_schema?: Record<string, unknown> }>;
+    tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+    metadata?: { user_id?: string };
+    thinking?: { type: "enabled" | "disabled"; budget_tokens?: number };
+};
+
+function blocksToText(content: string | AnthropicBlock[] | undefined): string {
+    if (typeof content === "string") return content;
+    return (content ?? [])
+        .filter((b) => b.type === "text")
+        .map((b) => b.text ?? "")
+        .join("");
+}
+
+function blockToImagePart(b: AnthropicBlock): ContentPart | null {
+    const src = b.source;
+    if (src?.type === "base64" && src.data) {
+        return { type: "image_url", image_url: { url: `data:${src.media_type ?? "image/png"};base64,${src.data}` } };
+    }
+    if (src?.type === "url" && src.url) {
+        return { type: "image_url", image_url: { url: src.url } };
+    }
+    return null;
+}
+
+/**
+ * Convert an Anthropic Messages request → internal ChatCompletionRequest.
+ */
+export function anthropicToChatRequest(raw: unknown): ChatCompletionRequest {
+    if (typeof raw !== "object" || raw === null) {
+        throw new Error("Request body must be a JSON object");
+    }
+    const body = raw as AnthropicRequest;
+    if (!Array.isArray(body.messages)) {
+        throw new Error("messages: field required");
+    }
+
+    const messages: ChatMessage[] = [];
+    const system = blocksToText(body.system);
+    if (system) messages.push({ role: "system", content: system });
+
+    for (const m of body.messages) {
+        if (typeof m.content === "string") {
+            messages.push({ role: m.role, content: m.content });
+            continue;
+        }
+
+        const blocks = m.content ?? [];
+        if (m.role === "assistant") {
+            const text = blocksToText(blocks);
+            const toolCalls = blocks
+                .filter((b) => b.type === "tool_use")
+                .map((b) => ({
+                    id: b.id ?? "",
+                    type: "function" as const,
+                    function: { name: b.name ?? "", arguments: JSON.stringify(b.input ?? {}) },
+                }));
+            const msg: ChatMessage = { role: "assistant", content: text || null };
+            if (toolCalls.length > 0) msg.tool_calls = toolCalls;
+            messages.push(msg);
+            continue;
+        }
+
+        // Tool results must directly follow the assistant turn that called them
+        for (const b of blocks.filter((b) => b.type === "tool_result")) {
+            messages.push({
+                role: "tool",
+                tool_call_id: b.tool_use_id ?? "",
+                content: blocksToText(b.content),
+            });
+        }
+        const parts: ContentPart[] = [];
+        for (const b of blocks) {
+            if (b.type === "text" && b.text) parts.push({ type: "text", text: b.text });
+            else if (b.type === "image") {
+                const image = blockToImagePart(b);
+                if (image) parts.push(image);
+            }
+        }
+        if (parts.some((p) => p.type === "image_url")) {
+            messages.push({ role: "user", content: parts });
+        } else {
+            const text = blocksToText(blocks);
+            if (text) messages.push({ role: "user", content: text });
+        }
+    }
+
+    const request: ChatCompletionRequest = {
+        model: body.model,
+        messages,
+        stream: body.stream === true,
+    };
+    if (body.max_tokens != null) request.max_tokens = body.max_tokens;
+    if (body.temperature != null) request.temperature = body.temperature;
+    if (body.top_p != null) request.top_p = body.top_p;
+    if (body.stop_sequences?.length) request.stop = body.stop_sequences;
+    if (body.metadata?.user_id) request.user = body.metadata.user_id;
+    if (body.thinking?.type === "enabled") request.thinking = body.thinking;
+
+    if (body.tools?.length) {
+        request.tools = body.tools.map((t) => ({
+            type: "function",
+            function: {
+                name: t.name,
+                description: t.description,
+                parameters: t.input_schema,
+            },
+        }));
+    }
+
+    const choice = body.tool_choice;
+    let toolChoice: ToolChoice | undefined;
+    if (choice?.type === "auto") toolChoice = "auto";
+    else if (choice?.type === "any") toolChoice = "required";
+    else if (choice?.type === "none") toolChoice = "none";
+    else if (choice?.type === "tool" && choice.name) {
+        toolChoice = { type: "function", function: { name: choice.name } };
+    }
+    if (toolChoice) request.tool_choice = toolChoice;
+
+    return request;
+}
+
+// ── OpenAI → Anthropic output ───────────────────────────────────────
+
+export function finishToAnthropicStopReason(finish: string | null | undefined): string {
+    switch (finish) {
+        case "length":
+            return "max_tokens";
+        case "tool_calls":
+        case "function_call":
+            return "tool_use";
+        default:
+            return "end_turn";
+    }
+}
+
+function errorTypeForStatus(status: number): string {
+    if (status === 400 || status === 422) return "invalid_request_error";
+    if (status === 404) return "not_found_error";
+    if (status === 401) return "authentication_error";
+    if (status === 403) return "permission_error";
+    if (status === 429) return "rate_limit_error";
+    if (status === 503 || status === 529) return "overloaded_error";
+    return "api_error";
+}
+
+export function openAIToAnthropicMessage(resp: ChatCompletionResponse, model: string): unknown {
+    const choice = resp.choices?.[0];
+    const content: unknown[] = [];
+    if (choice?.message?.content) {
+        content.push({ type: "text", text: choice.message.content });
+    }
+    for (const call of choice?.message?.tool_calls ?? []) {
+        let input: unknown = {};
+        try {
+            input = JSON.parse(call.function.arguments || "{}");
+        } catch { }
+        content.push({ type: "tool_use", id: call.id, name: call.function.name, input });
+    }
+
+    return {
+        id: resp.id || `msg_${Date.now()}`,
+        type: "message",
+        role: "assistant",
+        model: resp.model || model,
+        content,
+        stop_reason: finishToAnthropicStopReason(choice?.finish_reason),
+        stop_sequence: null,
+        usage: {
+            input_tokens: resp.usage?.prompt_tokens ?? 0,
+            output_tokens: resp.usage?.completion_tokens ?? 0,
+        },
+    };
+}
+
+/**
+ * ResponseSink that sits between the chat completion pipeline and the real
+ * client response. JSON bodies are buffered and converted on end(); OpenAI
+ * SSE chunks are re-emitted as Anthropic stream events as they arrive.
+ */
+export class AnthropicResponseWriter implements ResponseSink {
+    private status = 200;
+    private streaming = false;
+    private jsonBuffer = "";
+    private sseBuffer = "";
+
+    private blockIndex = -1;
+    private openBlock: "text" | "tool_use" | null = null;
+    // OpenAI tool_calls index → block index, for blocks already started
+    private toolBlocks = new Map<number, number>();
+    private openTool: number | null = null;
+    // Calls that started while another tool block was open, sent once it closes
+    private pendingTools = new Map<number, { id?: string; name: string; arguments: string }>();
+    private stopReason: string | null = null;
+    private outputTokens = 0;
+    private finished = false;
+
+    /**
+     * `inputTokens` is the prompt estimate sent in message_start; upstream
+     * usage only arrives with the last chunk, and then replaces it in
+     * message_delta.
+     */
+    constructor(private res: ServerResponse, private model: string, private inputTokens = 0) { }
+
+    get headersSent(): boolean {
+        return this.res.headersSent;
+    }
+
+    get writableEnded(): boolean {
+        return this.res.writableEnded;
+    }
+
+    writeHead(statusCode: number, headers?: Record<string, string>): this {
+        this.status = statusCode;
+        const contentType = headers?.["Content-Type"] ?? "";
+        this.streaming = statusCode === 200 && contentType.includes("event-stream");
+        this.res.writeHead(statusCode, headers);
+        if (this.streaming) {
+            this.emit("message_start", {
+                type: "message_start",
+                message: {
+                    id: `msg_${Date.now()}`,
+                    type: "message",
+                    role: "assistant",
+                    model: this.model,
+                    content: [],
+                    stop_reason: null,
+                    stop_sequence: null,
+                    usage: { input_tokens: this.inputTokens, output_tokens: 0 },
+                },
+            });
+        }
+        return this;
+    }
+
+    write(chunk: string | Uint8Array): boolean {
+        const text = typeof chunk === "string" ? chunk : Buffer.from(chunk).toString();
+        if (!this.streaming) {
+            this.jsonBuffer += text;
+            return true;
+        }
+
+        this.sseBuffer += text.replace(/\r\n/g, "\n");
+        let idx = this.sseBuffer.indexOf("\n\n");
+        while (idx !== -1) {
+            const event = this.sseBuffer.slice(0, idx);
+            this.sseBuffer = this.sseBuffer.slice(idx + 2);
+            for (const line of event.split("\n")) {
+                if (!line.startsWith("data:")) continue;
+                this.handleData(line.slice(5).trim());
+            }
+            idx = this.sseBuffer.indexOf("\n\n");
+        }
+        return true;
+    }
+
+    end(chunk?: string): this {
+        if (chunk) this.write(chunk);
+
+        if (this.streaming) {
+            this.finish();
+            this.res.end();
+            return this;
+        }
+
+        this.res.end(this.convertJson(this.jsonBuffer));
+        return this;
+    }
+
+    // ── JSON ──
+
+    private convertJson(text: string): string {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            return text;
+        }
+
+        if (this.status >= 400) {
+            const message =
+                parsed?.error?.message ??
+                (typeof parsed?.error === "string" ? parsed.error : undefined) ??
+                text;
+            return JSON.stringify({
+                type: "error",
+                error: { type: errorTypeForStatus(this.status), message },
+            });
+        }
+
+        return JSON.stringify(openAIToAnthropicMessage(parsed, this.model));
+    }
+
+    // ── SSE ──
+
+    private emit(event: string, data: unknown): void {
+        this.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+
+    private closeBlock(): void {
+        if (this.openBlock === null) return;
+        this.emit("content_block_stop", { type: "content_block_stop", index: this.blockIndex });
+        const wasTool = this.openBlock === "tool_use";
+        this.openBlock = null;
+        this.openTool = null;
+        if (!wasTool) return;
+
+        // Buffered parallel calls, each as a complete block
+        for (const [toolIndex, call] of this.pendingTools) {
+            this.startToolBlock(toolIndex, call.id, call.name);
+            if (call.arguments) this.emitToolArguments(toolIndex, call.arguments);
+            this.emit("content_block_stop", { type: "content_block_stop", index: this.blockIndex });
+            this.openBlock = null;
+            this.openTool = null;
+        }
+        this.pendingTools.clear();
+    }
+
+    private startToolBlock(toolIndex: number, id: string | undefined, name: string): void {
+        this.blockIndex++;
+        this.openBlock = "tool_use";
+        this.openTool = toolIndex;
+        this.toolBlocks.set(toolIndex, this.blockIndex);
+        this.emit("content_block_start", {
+            type: "content_block_start",
+            index: this.blockIndex,
+            content_block: {
+                type: "tool_use",
+                id: id ?? `toolu_${Date.now()}_${toolIndex}`,
+                name,
+                input: {},
+            },
+        });
+    }
+
+    private emitToolArguments(toolIndex: number, partialJson: string): void {
+        this.emit("content_block_delta", {
+            type: "content_block_delta",
+            index: this.toolBlocks.get(toolIndex),
+            delta: { type: "input_json_delta", partial_json: partialJson },
+        });
+    }
+
+    private handleData(data: string): void {
+        if (this.finished) return;
+        if (data === "[DONE]") {
+            this.finish();
+            return;
+        }
+
+        let chunk: any;
+        try {
+            chunk = JSON.parse(data);
+        } catch {
+            return;
+        }
+
+        // Upstream died mid-stream: Anthropic clients expect an error event
+        // in place of message_stop
+        if (chunk.error) {
+            this.finished = true;
+            this.closeBlock();
+            this.emit("error", {
+                type: "error",
+                error: { type: "api_error", message: chunk.error.message ?? "Stream interrupted" },
+            });
+            return;
+        }
+
+        if (chunk.usage?.completion_tokens != null) {
+            this.outputTokens = chunk.usage.completion_tokens;
+        }
+        if (chunk.usage?.prompt_tokens != null) {
+            this.inputTokens = chunk.usage.prompt_tokens;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) return;
+        const delta = choice.delta ?? {};
+
+        if (typeof delta.content === "string" && delta.content) {
+            if (this.openBlock !== "text") {
+                this.closeBlock();
+                this.blockIndex++;
+                this.openBlock = "text";
+                this.emit("content_block_start", {
+                    type: "content_block_start",
+                    index: this.blockIndex,
+                    content_block: { type: "text", text: "" },
+                });
+            }
+            this.emit("content_block_delta", {
+                type: "content_block_delta",
+                index: this.blockIndex,
+                delta: { type: "text_delta", text: delta.content },
+            });
+        }
+
+        // Only the open tool block streams; a call that starts while it is
+        // open (parallel tool calls) is buffered, since its arguments may
+        // keep interleaving and no delta may follow a block's stop
+        for (const call of delta.tool_calls ?? []) {
+            const toolIndex = call.index ?? 0;
+            const args: string = call.function?.arguments ?? "";
+            const pending = this.pendingTools.get(toolIndex);
+            if (pending) {
+                pending.arguments += args;
+                continue;
+            }
+            if (!this.toolBlocks.has(toolIndex)) {
+                if (this.openBlock === "tool_use") {
+                    this.pendingTools.set(toolIndex, { id: call.id, name: call.function?.name ?? "", arguments: args });
+                    continue;
+                }
+                this.closeBlock();
+                this.startToolBlock(toolIndex, call.id, call.function?.name ?? "");
+            } else if (this.openTool !== toolIndex) {
+                // Block already stopped (text came in between); nowhere to put it
+                continue;
+            }
+            if (args) this.emitToolArguments(toolIndex, args);
+        }
+
+        if (choice.finish_reason) {
+            this.stopReason = finishToAnthropicStopReason(choice.finish_reason);
+        }
+    }
+
+    private finish(): void {
+        if (this.finished) return;
+        this.finished = true;
+        this.closeBlock();
+        this.emit("message_delta", {
+            type: "message_delta",
+            delta: { stop_reason: this.stopReason ?? "end_turn", stop_sequence: null },
+            usage: { input_tokens: this.inputTokens, output_tokens: this.outputTokens },
+        });
+        this.emit("message_stop", { type: "message_stop" });
+    }
+}
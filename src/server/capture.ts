@@ -0,0 +1,200 @@
+import type { ChatCompletionRequest } from "../shared/types.js";
+import { saveCapture } from "../storage/captures.js";
+import type { CaptureError } from "../storage/captures.js";
+import type { ResponseSink } from "./proxy-upstream.js";
+
+// ── Payload capture ─────────────────────────────────────────────────
+// A RequestCapture follows one client request: it snapshots the body as
+// received, sees everything written back to the client through a wrapped
+// sink (streams are reassembled into a single completion), and collects
+// the upstream attempts that failed along the way. Only the response the
+// client actually got is captured, so a hedge race records its winner.
+
+type ToolCall = { id?: string; type?: string; function: { name: string; arguments: string } };
+
+/** Folds OpenAI SSE chunks back into one chat.completion-shaped object. */
+export class StreamAssembler {
+    private buffer = "";
+    private id?: string;
+    private model?: string;
+    private content = "";
+    private reasoning = "";
+    private toolCalls: ToolCall[] = [];
+    private finishReason: string | null = null;
+    private usage?: unknown;
+    private error?: unknown;
+    private done = false;
+
+    push(text: string): void {
+        this.buffer += text.replace(/\r\n/g, "\n");
+        const lines = this.buffer.split("\n");
+        this.buffer = lines.pop() ?? "";
+        for (const line of lines) this.line(line);
+    }
+
+    private line(line: string): void {
+        if (!line.startsWith("data:")) return;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") {
+            this.done = true;
+            return;
+        }
+        let chunk: any;
+        try {
+            chunk = JSON.parse(data);
+        } catch {
+            return;
+        }
+        if (chunk.error) this.error = chunk.error;
+        this.id ??= chunk.id;
+        this.model ??= chunk.model;
+        if (chunk.usage) this.usage = chunk.usage;
+
+        const choice = chunk.choices?.[0];
+        if (!choice) return;
+        const delta = choice.delta ?? {};
+        if (delta.content) this.content += delta.content;
+        if (delta.reasoning_content) this.reasoning += delta.reasoning_content;
+        for (const call of delta.tool_calls ?? []) {
+            const slot = (this.toolCalls[call.index ?? 0] ??= { function: { name: "", arguments: "" } });
+            if (call.id) slot.id = call.id;
+            if (call.type) slot.type = call.type;
+            if (call.function?.name) slot.function.name += call.function.name;
+            if (call.function?.arguments) slot.function.arguments += call.function.arguments;
+        }
+        if (choice.finish_reason) this.finishReason = choice.finish_reason;
+    }
+
+    result(): Record<string, unknown> {
+        if (this.buffer) this.line(this.buffer);
+        this.buffer = "";
+        return {
+            id: this.id,
+            object: "chat.completion",
+            model: this.model,
+            choices: [
+                {
+                    index: 0,
+                    message: {
+                        role: "assistant",
+                        content: this.content,
+                        reasoning_content: this.reasoning || undefined,
+                        tool_calls: this.toolCalls.length > 0 ? this.toolCalls.filter(Boolean) : undefined,
+                    },
+                    finish_reason: this.finishReason,
+                },
+            ],
+            usage: this.usage,
+            error: this.error,
+            // No [DONE]: the stream was interrupted or the client went away
+            incomplete: this.done ? undefined : true,
+        };
+    }
+}
+
+/** Sink that keeps the response instead of sending it anywhere. */
+export class ResponseCollector implements ResponseSink {
+    status = 0;
+    headersSent = false;
+    writableEnded = false;
+    private stream: StreamAssembler | null = null;
+    private body = "";
+
+    writeHead(statusCode: number, headers?: Record<string, string>): void {
+        this.status = statusCode;
+        this.headersSent = true;
+        const contentType = Object.entries(headers ?? {})
+            .find(([k]) => k.toLowerCase() === "content-type")?.[1] ?? "";
+        if (contentType.includes("event-stream")) this.stream = new StreamAssembler();
+    }
+
+    write(chunk: string): boolean {
+        if (this.stream) this.stream.push(chunk);
+        else this.body += chunk;
+        return true;
+    }
+
+    end(chunk?: string): void {
+        if (chunk !== undefined) this.write(chunk);
+        this.writableEnded = true;
+    }
+
+    /** The response as a value: streams reassembled, JSON parsed, other text as is. */
+    result(): unknown {
+        if (this.stream) return this.stream.result();
+        if (!this.body) return null;
+        try {
+            return JSON.parse(this.body);
+        } catch {
+            return this.body;
+        }
+    }
+}
+
+export class RequestCapture {
+    private readonly timestamp = Date.now();
+    private readonly request: unknown;
+    private readonly errors: CaptureError[] = [];
+    private readonly response = new ResponseCollector();
+
+    constructor(
+        private readonly requestId: string,
+        private readonly clientRequestId: string | undefined,
+        private readonly client: string,
+        body: ChatCompletionRequest
+    ) {
+        // Routing rewrites the body (model, max_wait); keep what the client sent
+        this.request = JSON.parse(JSON.stringify(body));
+    }
+
+    /** Sink that forwards to `sink` and keeps a copy of the response. */
+    wrap(sink: ResponseSink): ResponseSink {
+        const copy = this.response;
+        return {
+            get headersSent() {
+                return sink.headersSent;
+            },
+            get writableEnded() {
+                return sink.writableEnded;
+            },
+            writeHead(statusCode, headers) {
+                copy.writeHead(statusCode, headers);
+                return sink.writeHead(statusCode, headers);
+            },
+            write(chunk) {
+                copy.write(chunk);
+                return sink.write(chunk);
+            },
+            end(chunk) {
+                copy.end(chunk);
+                return sink.end(chunk);
+            },
+        };
+    }
+
+    /** Note a failed upstream attempt (the error thrown by proxyToProvider). */
+    attemptFailed(provider: string, model: string, profileId: string, err: any): void {
+        this.errors.push({
+            provider,
+            model,
+            profileId,
+            status: err?.status,
+            reason: err?.reason,
+            message: err?.message ?? String(err),
+            upstreamError: err?.upstreamError,
+        });
+    }
+
+    save(): void {
+        saveCapture({
+            requestId: this.requestId,
+            clientRequestId: this.clientRequestId,
+            timestamp: this.timestamp,
+            client: this.client,
+            status: this.response.status,
+            request: this.request,
+            response: this.response.result(),
+            errors: this.errors,
+        });
+    }
+}
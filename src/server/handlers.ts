@@ -3,16 +3,42 @@ import { readFileSync, existsSync } from "node:fs";
 import * as fs from "node:fs";
 import { join } from "node:path";
 import { exec } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import jwt from "jsonwebtoken";
 
-import { route } from "../router/index.js";
+import {
+    routeRequest,
+    getRoutingConfig,
+    saveRoutingConfig,
+    resetRoutingConfig,
+    getRoutingConfigPath,
+    ROUTING_CONFIG_VERSION,
+    requirementsFromRequest,
+    unmetRequirements,
+    completionBudget,
+} from "../router/index.js";
 import type { RoutingDecision } from "../router/index.js";
+import {
+    AFFINITY_HEADER,
+    getConversationKey,
+    getAffinity,
+    setAffinity,
+    clearAffinity,
+    affinityBreakReason,
+    applyAffinity,
+    higherTier,
+} from "../router/affinity.js";
+import type { AffinityEntry } from "../router/affinity.js";
+import { tryAcquireCircuit, isCircuitAvailable, getCircuitSnapshot } from "../router/circuit-breaker.js";
 import { getProvider, getAccountId, getAccountEmail } from "../providers/index.js";
 import {
     getAvailableProviders,
     pickNextProfile,
     getApiKeyForProvider,
-    incrementProfileUsage,
+    getProfileReadyAt,
+    acquireProfileSlot,
+    getInFlightCounts,
+    getInFlightByProvider,
     markProfileFailure,
     loadStore,
     upsertProfile,
@@ -21,9 +47,15 @@ import {
     removeProfile,
 } from "../auth/store.js";
 import { getAllModels, getModelsForProvider, findModel } from "../models/registry.js";
-import { logger } from "../shared/logger.js";
+import { estimatePromptTokens } from "../models/tokens.js";
+import { createLogger } from "../shared/logger.js";
+import { METRICS_CONTENT_TYPE, renderMetrics, setProfileSnapshot } from "../shared/metrics.js";
+import { withSpan, currentSpan, parseTraceparent } from "../shared/tracing.js";
+import { currentClientRequestId, currentRequestId } from "../shared/request-context.js";
+import { RequestCapture } from "./capture.js";
+import { getCapture } from "../storage/captures.js";
 import { recordRequest, getStats, getStatsSummary } from "../storage/stats.js";
-import { generateKey, listKeys, revokeKey, validateKey } from "../auth/api-keys.js";
+import { generateKey, listKeys, revokeKey, validateKey, lookupKey, setKeyCapture } from "../auth/api-keys.js";
 import type {
     ChatCompletionRequest,
     ProfileCredential,
@@ -32,9 +64,24 @@ import type {
 } from "../shared/types.js";
 
 import { proxyToProvider } from "./proxy-upstream.js";
-import { readBody, getTask, formatGoogleStyle429, doAuditLog, parseCookies } from "./helpers.js";
+import type { ResponseSink } from "./proxy-upstream.js";
+import { anthropicToChatRequest, AnthropicResponseWriter } from "./anthropic-messages.js";
+import { runHedged, getHedgeThresholdMs } from "./hedge.js";
+import type { HedgeMarker } from "./hedge.js";
+import { MAX_WAIT_HEADER, waitForCooldown, getQueueDepths, parseMaxWaitMs } from "./wait-queue.js";
+import {
+    readBody,
+    clientAbortSignal,
+    getTask,
+    formatGoogleStyle429,
+    doAuditLog,
+    parseCookies,
+    getClientApiKey,
+} from "./helpers.js";
 import { requireDashboardAuth, JWT_SECRET } from "./middleware.js";
 
+const logger = createLogger("server");
+
 const ADMIN_PASSWORD = process.env.SMART_ROUTER_ADMIN_PASSWORD || "admin";
 const DEBUG_RAW = process.env.DEBUG_RAW === "1";
 
@@ -46,14 +93,121 @@ export async function handleChatCompletion(
 ): Promise<void> {
     const bodyStr = await readBody(req);
     const body = JSON.parse(bodyStr) as ChatCompletionRequest;
+    await runChatCompletion(req, res, body, clientAbortSignal(res));
+}
+
+// ── Anthropic Messages Handler ──────────────────────────────────────
+
+export async function handleAnthropicMessages(
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    const bodyStr = await readBody(req);
+
+    let body: ChatCompletionRequest;
+    try {
+        body = anthropicToChatRequest(JSON.parse(bodyStr));
+    } catch (err: any) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(
+            JSON.stringify({
+                type: "error",
+                error: { type: "invalid_request_error", message: err.message },
+            })
+        );
+        return;
+    }
+
+    const writer = new AnthropicResponseWriter(res, body.model ?? "auto", estimatePromptTokens(body));
+    await runChatCompletion(req, writer, body, clientAbortSignal(res));
+}
+
+// ── Shared routing pipeline ─────────────────────────────────────────
+
+/**
+ * Root trace span for a chat completion, continuing the caller's trace when
+ * the request carries a W3C traceparent header. Payload capture, when on,
+ * wraps the sink here and is saved once the request is done.
+ */
+async function runChatCompletion(
+    req: IncomingMessage,
+    res: ResponseSink,
+    body: ChatCompletionRequest,
+    clientSignal: AbortSignal
+): Promise<void> {
+    const capture = startCapture(req, body);
+    const sink = capture ? capture.wrap(res) : res;
+    try {
+        await withSpan(
+            "chat.completion",
+            {
+                kind: "server",
+                parent: parseTraceparent(req.headers.traceparent),
+                attributes: {
+                    "http.route": new URL(req.url || "", "http://localhost").pathname,
+                    "smart_router.request_id": currentRequestId(),
+                    "smart_router.client_request_id": currentClientRequestId(),
+                    "smart_router.requested_model": body.model ?? "auto",
+                    "smart_router.stream": body.stream === true,
+                },
+            },
+            () => routeChatCompletion(req, sink, body, clientSignal, capture)
+        );
+    } finally {
+        try {
+            capture?.save();
+        } catch (err: any) {
+            logger.warn(`Payload capture failed: ${err?.message ?? err}`);
+        }
+    }
+}
+
+/** Capture recorder when the client's API key (or else the config default) asks for one */
+function startCapture(req: IncomingMessage, body: ChatCompletionRequest): RequestCapture | null {
+    const clientKey = getClientApiKey(req);
+    const key = clientKey ? lookupKey(clientKey) : null;
+    const enabled = key && key.capture !== null ? key.capture === 1 : getRoutingConfig().capture.enabled;
+    if (!enabled) return null;
+    return new RequestCapture(
+        currentRequestId() ?? randomUUID(),
+        currentClientRequestId(),
+        key ? key.label || key.prefix : "anonymous",
+        body
+    );
+}
+
+/**
+ * Run a request through the routing pipeline in-process, as an anonymous
+ * client without session or profile headers and without capturing it.
+ * Used by `openroutex replay`.
+ */
+export function routeReplay(
+    body: ChatCompletionRequest,
+    sink: ResponseSink,
+    signal: AbortSignal
+): Promise<void> {
+    return routeChatCompletion({ headers: {} }, sink, body, signal, null);
+}
 
+/**
+ * Route a chat completion and proxy it to the first provider that succeeds.
+ * Every ingress format (OpenAI, Anthropic) funnels through here; `res` may be
+ * a translating ResponseSink rather than the raw ServerResponse.
+ * `clientSignal` aborts the upstream call once the client disconnects.
+ */
+async function routeChatCompletion(
+    req: Pick<IncomingMessage, "headers">,
+    res: ResponseSink,
+    body: ChatCompletionRequest,
+    clientSignal: AbortSignal,
+    capture: RequestCapture | null
+): Promise<void> {
     // ── Authentication Check ──
-    const authHeader = req.headers.authorization;
+    const clientKey = getClientApiKey(req);
     let clientLabel = "anonymous";
 
-    if (authHeader && authHeader.startsWith("Bearer sk-sr-")) {
-        const key = authHeader.slice(7);
-        const validKey = validateKey(key);
+    if (clientKey && clientKey.startsWith("sk-sr-")) {
+        const validKey = validateKey(clientKey);
 
         if (!validKey) {
             res.writeHead(401, { "Content-Type": "application/json" });
@@ -63,12 +217,6 @@ export async function handleChatCompletion(
         clientLabel = validKey.label || validKey.prefix;
     }
 
-    // Extract prompt for routing
-    const lastUserMsg = [...body.messages]
-        .reverse()
-        .find((m) => m.role === "user");
-    const prompt = lastUserMsg?.content ?? "";
-
     // Determine available providers
     const availableProviders = getAvailableProviders();
 
@@ -92,6 +240,9 @@ export async function handleChatCompletion(
         requestedModel.includes("/auto");
 
     let decision: RoutingDecision;
+    const affinity = getRoutingConfig().affinity;
+    let affinityKey: string | undefined;
+    let pinned: AffinityEntry | undefined;
     let explicitModel: ReturnType<typeof findModel> = undefined;
     let providersToTry: Array<{ provider: string; model: string }>;
 
@@ -143,7 +294,24 @@ export async function handleChatCompletion(
         return;
     }
 
+    const requirements = requirementsFromRequest(body);
+
     if (explicitModel && availableProviders.has(explicitModel.provider)) {
+        const missing = unmetRequirements(explicitModel, {
+            promptTokens: requirements.promptTokens,
+            maxTokens: requirements.maxTokens,
+        });
+        if (missing.length > 0) {
+            const promptTokens = requirements.promptTokens!(explicitModel);
+            const budget = completionBudget(explicitModel, requirements.maxTokens);
+            const message = `Prompt (~${promptTokens} tokens) plus max_tokens (${budget}) exceeds the ${explicitModel.id} context window of ${explicitModel.contextWindow} tokens`;
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(
+                JSON.stringify({ error: { code: "context_length_exceeded", message } })
+            );
+            return;
+        }
+
         decision = {
             selectedProvider: explicitModel.provider,
             selectedModel: explicitModel.id,
@@ -164,7 +332,33 @@ export async function handleChatCompletion(
             { provider: explicitModel.provider, model: explicitModel.id },
         ];
     } else {
-        decision = route(prompt, availableProviders);
+        decision = withSpan("router.route", {}, (span) => {
+            const routed = routeRequest(body, availableProviders, requirements);
+            span.setAttributes({
+                "smart_router.tier": routed.scoring.tier,
+                "smart_router.score": routed.scoring.totalScore,
+                "smart_router.confidence": routed.scoring.confidence,
+                "smart_router.provider": routed.selectedProvider,
+                "smart_router.model": routed.selectedModel,
+                "smart_router.fallbacks": routed.fallbackChain.length,
+            });
+            return routed;
+        });
+
+        if (decision.selectedProvider === "none" && decision.excluded?.length) {
+            const tooLong = decision.excluded.every((e) => e.missing.includes("context"));
+            logger.warn(`No capable model: ${decision.reason}`);
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(
+                JSON.stringify({
+                    error: {
+                        code: tooLong ? "context_length_exceeded" : "no_capable_model",
+                        message: decision.reason,
+                    },
+                })
+            );
+            return;
+        }
 
         const reasons = decision.scoring.dimensions
             .filter((d) => d.score > 0)
@@ -182,6 +376,36 @@ export async function handleChatCompletion(
             );
         }
 
+        if (decision.excluded?.length) {
+            logger.route(
+                `Excluded: ${decision.excluded
+                    .map((e) => `${e.provider}/${e.model} [${e.missing.join(",")}]`)
+                    .join(" | ")}`
+            );
+        }
+
+        // Session affinity: keep the conversation on its pinned route unless
+        // it escalated or the pin can't serve this request
+        if (affinity.enabled) {
+            affinityKey = getConversationKey(
+                body,
+                req.headers[AFFINITY_HEADER] as string | undefined,
+                clientLabel
+            );
+            const entry = getAffinity(affinityKey);
+            if (entry) {
+                const breakReason = affinityBreakReason(entry, decision, availableProviders, requirements);
+                if (breakReason) {
+                    clearAffinity(affinityKey);
+                    logger.route(`Affinity released: ${breakReason}`);
+                } else {
+                    decision = applyAffinity(decision, entry);
+                    pinned = entry;
+                    logger.route(`STICKY → ${entry.provider}/${entry.model}`);
+                }
+            }
+        }
+
         providersToTry = [];
         if (decision.selectedProvider !== "none") {
             providersToTry.push({
@@ -192,6 +416,21 @@ export async function handleChatCompletion(
         providersToTry.push(...decision.fallbackChain);
     }
 
+    currentSpan()?.setAttributes({
+        "smart_router.tier": decision.scoring.tier,
+        "smart_router.score": decision.scoring.totalScore,
+        "smart_router.reason": decision.reason,
+    });
+
+    // Optional: wait out cooldowns instead of failing fast (header or body field, seconds)
+    const queueConfig = getRoutingConfig().queue;
+    const maxWaitMs = parseMaxWaitMs(
+        req.headers[MAX_WAIT_HEADER],
+        (body as any).max_wait,
+        queueConfig.maxWaitSeconds
+    );
+    delete (body as any).max_wait;
+
     // Optional: force a specific auth profile via header or body flag
     const forcedProfileId =
         (req.headers["x-smart-router-profile"] as string | undefined) ||
@@ -240,69 +479,231 @@ export async function handleChatCompletion(
             },
         ];
         forcedCredential = cred;
+        // A forced profile bypasses session affinity entirely
+        affinityKey = undefined;
+        pinned = undefined;
     }
 
     const maxWait = 5;
     let lastError: any = null;
     let successful = false;
 
-    // Try providers in order
-    for (const { provider: providerId, model } of providersToTry) {
-        let profileId: string;
-        let credential: ProfileCredential;
+    type Attempt = { providerId: string; model: string; profileId: string; credential: ProfileCredential };
 
+    const resolveAttempt = (providerId: string, model: string): Attempt | null => {
         if (forcedCredential) {
-            profileId = forcedProfileId!;
-            credential = forcedCredential;
-        } else {
-            const profile = pickNextProfile(providerId, model);
-            if (profile) {
-                profileId = profile.profileId;
-                credential = profile.credential;
-            } else {
-                const apiKey = getApiKeyForProvider(providerId);
-                if (!apiKey) continue;
-                profileId = buildProfileId(providerId, "env");
-                credential = { type: "api_key", provider: providerId, key: apiKey };
+            return { providerId, model, profileId: forcedProfileId!, credential: forcedCredential };
+        }
+        const profile = withSpan(
+            "profile.pick",
+            { attributes: { "smart_router.provider": providerId, "smart_router.model": model } },
+            (span) => {
+                const picked = pickNextProfile(
+                    providerId,
+                    model,
+                    pinned?.provider === providerId ? pinned.profileId : undefined,
+                    estimatePromptTokens(body, model, providerId)
+                );
+                span.setAttributes({ "smart_router.profile": picked?.profileId });
+                return picked;
             }
+        );
+        if (profile) {
+            return { providerId, model, profileId: profile.profileId, credential: profile.credential };
         }
+        const apiKey = getApiKeyForProvider(providerId);
+        if (!apiKey) return null;
+        return {
+            providerId,
+            model,
+            profileId: buildProfileId(providerId, "env"),
+            credential: { type: "api_key", provider: providerId, key: apiKey },
+        };
+    };
 
-        try {
-            const attemptBody = { ...body, model };
-            await proxyToProvider(
-                providerId,
-                profileId,
-                credential,
-                attemptBody,
-                isStreaming,
-                res,
-                decision
-            );
-            incrementProfileUsage(profileId, providerId);
-            return;
-        } catch (err: any) {
-            const reason = err?.reason ?? "unknown";
-            // NOTE: Do NOT call markProfileFailure here.
-            // It is already called inside proxyToProvider (proxy-upstream.ts)
-            // before throwing. Calling it again would double the errorCount
-            // and escalate cooldowns twice as fast.
-
-            if (
-                err.upstreamError &&
-                providerId === "antigravity" &&
-                model === "gemini-3-pro-high"
-            ) {
-                (decision as any)._lastAntigravityError = err.upstreamError;
+    const runAttempt = async (
+        attempt: Attempt,
+        sink: ResponseSink,
+        signal: AbortSignal,
+        hedge?: HedgeMarker
+    ) => {
+        const attributes = {
+            "smart_router.provider": attempt.providerId,
+            "smart_router.model": attempt.model,
+            "smart_router.profile": attempt.profileId,
+            "smart_router.hedge": hedge?.role,
+        };
+        await withSpan("upstream.attempt", { attributes }, async () => {
+            const release = acquireProfileSlot(attempt.profileId);
+            try {
+                await proxyToProvider(
+                    attempt.providerId,
+                    attempt.profileId,
+                    attempt.credential,
+                    { ...body, model: attempt.model },
+                    isStreaming,
+                    sink,
+                    decision,
+                    signal,
+                    hedge
+                );
+            } finally {
+                release();
             }
+        });
+    };
 
-            const currentIndex = providersToTry.findIndex(
-                (p) => p.provider === providerId && p.model === model
-            );
-            if (currentIndex < providersToTry.length - 1) {
-                logger.warn(`${providerId} (${profileId}) failed, trying next...`);
+    const succeeded = ({ providerId, model, profileId }: Attempt) => {
+        currentSpan()?.setAttributes({
+            "smart_router.provider": providerId,
+            "smart_router.model": model,
+            "smart_router.profile": profileId,
+        });
+        if (affinityKey) {
+            const tier = pinned
+                ? higherTier(pinned.tier, decision.scoring.tier)
+                : decision.scoring.tier;
+            setAffinity(affinityKey, { provider: providerId, model, profileId, tier }, affinity.ttlSeconds);
+        }
+    };
+
+    const failed = ({ providerId, model, profileId }: Attempt, err: any) => {
+        capture?.attemptFailed(providerId, model, profileId, err);
+        if (affinityKey && pinned?.provider === providerId && pinned.model === model) {
+            clearAffinity(affinityKey);
+            pinned = undefined;
+        }
+        // NOTE: Do NOT call markProfileFailure here.
+        // It is already called inside proxyToProvider (proxy-upstream.ts)
+        // before throwing. Calling it again would double the errorCount
+        // and escalate cooldowns twice as fast.
+
+        if (
+            err?.upstreamError &&
+            providerId === "antigravity" &&
+            model === "gemini-3-pro-high"
+        ) {
+            (decision as any)._lastAntigravityError = err.upstreamError;
+        }
+    };
+
+    // Hedging: auto-routed requests in latency-sensitive tiers may race the
+    // next candidate against a slow primary
+    const hedging = getRoutingConfig().hedging;
+    const hedgeThresholdMs =
+        isAuto && !forcedCredential && hedging.enabled && hedging.tiers.includes(decision.scoring.tier)
+            ? getHedgeThresholdMs(decision.scoring.tier, hedging)
+            : null;
+
+    // Try providers in order; true once the client has been answered
+    const dispatch = async (): Promise<boolean> => {
+        for (let i = 0; i < providersToTry.length; i++) {
+            const { provider: providerId, model } = providersToTry[i];
+
+            // Circuit first: picking a profile moves its rotation state
+            // (weighted round-robin, LRU), so only pick for a request we send
+            if (!isCircuitAvailable(providerId, model)) {
+                logger.warn(`Circuit open for ${providerId}/${model}, skipping`);
+                continue;
+            }
+            const attempt = resolveAttempt(providerId, model);
+            if (!attempt) continue;
+            tryAcquireCircuit(providerId, model);
+
+            const canHedge =
+                hedgeThresholdMs !== null &&
+                providersToTry.slice(i + 1).some((next) => isCircuitAvailable(next.provider, next.model));
+
+            if (canHedge) {
+                // The backup's profile is only picked once the hedge fires
+                const backup = { attempt: null as Attempt | null, index: i };
+                const outcome = await runHedged(
+                    res,
+                    hedgeThresholdMs!,
+                    clientSignal,
+                    (sink, signal, marker) => runAttempt(attempt, sink, signal, marker),
+                    (sink, signal, marker) => {
+                        for (let j = i + 1; j < providersToTry.length && !backup.attempt; j++) {
+                            const next = providersToTry[j];
+                            if (!isCircuitAvailable(next.provider, next.model)) continue;
+                            backup.attempt = resolveAttempt(next.provider, next.model);
+                            backup.index = j;
+                        }
+                        const hedge = backup.attempt;
+                        // Nothing usable left: the primary runs alone
+                        if (!hedge) return Promise.resolve();
+                        tryAcquireCircuit(hedge.providerId, hedge.model);
+                        logger.route(
+                            `HEDGE → ${hedge.providerId}/${hedge.model} (${providerId} silent for ${hedgeThresholdMs}ms)`
+                        );
+                        return runAttempt(hedge, sink, signal, marker);
+                    }
+                );
+
+                const hedge = backup.attempt;
+                if (outcome.errors.primary) failed(attempt, outcome.errors.primary);
+                if (outcome.errors.hedge && hedge) failed(hedge, outcome.errors.hedge);
+                if (outcome.winner) {
+                    const winner = outcome.winner === "primary" ? attempt : hedge!;
+                    if (!outcome.errors[outcome.winner]) succeeded(winner);
+                    return true;
+                }
+                if (outcome.errors.primary?.clientClosed || outcome.errors.hedge?.clientClosed) return true;
+                if (hedge) i = backup.index;
+                if (i < providersToTry.length - 1) {
+                    logger.warn(`${providerId} (${attempt.profileId}) failed, trying next...`);
+                }
+                continue;
+            }
+
+            try {
+                await runAttempt(attempt, res, clientSignal);
+                succeeded(attempt);
+                return true;
+            } catch (err: any) {
+                // Nobody left to answer; don't burn quota on fallbacks
+                if (err?.clientClosed) return true;
+
+                failed(attempt, err);
+
+                // Tokens already streamed to the client; the error chunk has
+                // been sent and there is nothing left to fail over
+                if (err?.streamStarted || res.headersSent) return true;
+
+                if (i < providersToTry.length - 1) {
+                    logger.warn(`${providerId} (${attempt.profileId}) failed, trying next...`);
+                }
             }
         }
+        return false;
+    };
+
+    // Queue-and-wait: a client that set a wait budget sits out short
+    // cooldowns and retries instead of taking an immediate 429
+    const waitUntil = maxWaitMs > 0 ? Date.now() + maxWaitMs : 0;
+    while (true) {
+        if (await dispatch()) return;
+        if (!waitUntil || forcedCredential || res.headersSent || clientSignal.aborted) break;
+
+        let next: { key: string; readyAt: number } | null = null;
+        for (const { provider, model } of providersToTry) {
+            const readyAt = getProfileReadyAt(provider, model, estimatePromptTokens(body, model, provider));
+            if (readyAt !== null && (!next || readyAt < next.readyAt)) {
+                next = { key: `${provider}/${model}`, readyAt };
+            }
+        }
+        // Nothing cooling down (it failed outright) or it won't recover in time
+        if (!next || next.readyAt <= Date.now() || next.readyAt > waitUntil) break;
+
+        logger.warn(`All candidates cooling down, waiting ${Math.ceil((next.readyAt - Date.now()) / 1000)}s for ${next.key}`);
+        const result = await waitForCooldown(next.key, next.readyAt, queueConfig.maxDepth, clientSignal);
+        if (result === "aborted") return;
+        if (result === "full") {
+            logger.warn(`Wait queue for ${next.key} is full`);
+            break;
+        }
     }
+    if (clientSignal.aborted) return;
 
     // All providers failed
     let maxCooldown = 0;
@@ -341,6 +742,7 @@ export async function handleChatCompletion(
             : "Service Unavailable: All available models are currently in COOLDOWN or reached their RATE LIMIT. Please wait or check your provider status.";
 
     logger.error(`\x1b[31mCRITICAL\x1b[0m: ${errorMsg}`);
+    currentSpan()?.recordError(new Error(errorMsg));
 
     const finalStats: RequestStats = {
         timestamp: Date.now(),
@@ -464,10 +866,43 @@ export async function handleHealth(
             status: "ok",
             providers: available.size,
             profiles: Object.keys(loadStore().profiles).length,
+            circuits: getCircuitSnapshot(),
+            queue: getQueueDepths(),
+            // Unauthenticated: per-provider totals only, per-profile counts are in /api/stats
+            inFlight: getInFlightByProvider(),
         })
     );
 }
 
+// ── Metrics Handler ─────────────────────────────────────────────────
+
+export async function handleMetrics(
+    _req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    // Profile gauges reflect the store at scrape time; counters and
+    // histograms accumulate as requests and failures are recorded
+    const store = loadStore();
+    const now = Date.now();
+    setProfileSnapshot(
+        Object.entries(store.profiles).map(([id, cred]) => {
+            const stats = store.usageStats[id];
+            const cooldownUntil = stats?.cooldownUntil ?? 0;
+            const state = stats?.state === "DISABLED"
+                ? "DISABLED"
+                : now < cooldownUntil ? "COOLDOWN" : "ACTIVE";
+            return {
+                provider: cred.provider,
+                profileId: id,
+                state,
+                cooldownSeconds: state === "COOLDOWN" ? Math.ceil((cooldownUntil - now) / 1000) : 0,
+            };
+        })
+    );
+    res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+    res.end(renderMetrics());
+}
+
 // ── Static Handler ──────────────────────────────────────────────────
 
 export async function handleStatic(req: IncomingMessage, res: ServerResponse): Promise<void> {
@@ -518,10 +953,35 @@ export async function handleApiStats(
     res.writeHead(200, { "Content-Type": "application/json" });
     res.end(JSON.stringify({
         summary,
-        requests: stats.requests.slice(-100)
+        requests: stats.requests.slice(-100),
+        queue: getQueueDepths(),
+        inFlight: getInFlightCounts()
     }));
 }
 
+// ── API Capture Handler ─────────────────────────────────────────────
+
+export async function handleApiCapture(
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    const url = new URL(req.url || "", `http://${req.headers.host}`);
+    const requestId = url.searchParams.get("requestId");
+    if (!requestId) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "requestId is required" }));
+        return;
+    }
+    const capture = getCapture(requestId);
+    if (!capture) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "No payload captured for this request" }));
+        return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(capture));
+}
+
 // ── API Config Handler ──────────────────────────────────────────────
 
 export async function handleApiConfig(
@@ -545,6 +1005,43 @@ export async function handleApiConfig(
     res.end(JSON.stringify({ providers, profiles, models }));
 }
 
+// ── API Routing Config Handler ──────────────────────────────────────
+
+export async function handleApiRouting(
+    req: IncomingMessage,
+    res: ServerResponse
+): Promise<void> {
+    if (req.method === "GET") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+            version: ROUTING_CONFIG_VERSION,
+            path: getRoutingConfigPath(),
+            persisted: existsSync(getRoutingConfigPath()),
+            config: getRoutingConfig(),
+        }));
+    } else if (req.method === "PUT" || req.method === "POST") {
+        const body = await readBody(req);
+        let config;
+        try {
+            config = saveRoutingConfig(JSON.parse(body));
+        } catch (err: any) {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: err.message }));
+            return;
+        }
+        logger.info(`Routing config updated via API`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, config }));
+    } else if (req.method === "DELETE") {
+        const config = resetRoutingConfig();
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true, config }));
+    } else {
+        res.writeHead(405, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Method not allowed" }));
+    }
+}
+
 // ── Profile Handlers ────────────────────────────────────────────────
 
 export async function handleDeleteProfile(
@@ -681,6 +1178,22 @@ export async function handleApiKeys(
         logger.info(`Revoked API key hash: ${hash.slice(0, 8)}...`);
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ success: true }));
+    } else if (req.method === "PATCH") {
+        const body = await readBody(req);
+        const { hash, capture } = JSON.parse(body);
+        if (!hash || (capture !== null && typeof capture !== "boolean")) {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "hash and capture (true, false or null) are required" }));
+            return;
+        }
+        if (!setKeyCapture(hash, capture)) {
+            res.writeHead(404, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "API key not found" }));
+            return;
+        }
+        logger.info(`Payload capture for API key ${hash.slice(0, 8)}...: ${capture === null ? "default" : capture ? "on" : "off"}`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
     } else {
         res.writeHead(405, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Method not allowed" }));
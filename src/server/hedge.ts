@@ -0,0 +1,145 @@
+import type { HedgingConfig, Tier } from "../router/types.js";
+import type { HedgeRole } from "../shared/types.js";
+import { getFirstTokenPercentile } from "../storage/stats.js";
+import type { ResponseSink } from "./proxy-upstream.js";
+
+// ── Hedged requests ─────────────────────────────────────────────────
+// For latency-sensitive tiers a slow primary gets company: once it has gone
+// the tier's threshold without answering, the next candidate is fired in
+// parallel. Whichever attempt writes its response head first (with streaming
+// buffered until the first content delta, that's its first token) wins the
+// client; the other attempt is aborted.
+
+/** Abort reason handed to the attempt that lost the race */
+export const HEDGE_LOST = "hedge_lost";
+
+const DEFAULT_THRESHOLD_MS = 2000;
+// Observed latency needs this many recent successes before it's trusted
+const MIN_SAMPLES = 20;
+const THRESHOLD_CACHE_MS = 60_000;
+
+/** Passed to each racing attempt; `active` turns true once the backup has fired. */
+export type HedgeMarker = {
+    readonly role: HedgeRole;
+    readonly active: boolean;
+};
+
+export type HedgeAttempt = (
+    sink: ResponseSink,
+    signal: AbortSignal,
+    marker: HedgeMarker,
+) => Promise<void>;
+
+export type HedgeOutcome = {
+    /** Attempt that got the client, or null if neither responded */
+    winner: HedgeRole | null;
+    /** The backup was fired */
+    hedged: boolean;
+    /** Failures of the attempts that weren't cancelled by the race */
+    errors: Partial<Record<HedgeRole, any>>;
+};
+
+const thresholdCache = new Map<Tier, { value: number; at: number }>();
+
+/**
+ * How long the primary may stay silent before the backup fires: the
+ * configured per-tier value, else the tier's recent p90 time to first token.
+ */
+export function getHedgeThresholdMs(tier: Tier, config: HedgingConfig, now = Date.now()): number {
+    const configured = config.thresholdMs[tier];
+    if (configured !== undefined) return configured;
+
+    const cached = thresholdCache.get(tier);
+    if (cached && now - cached.at < THRESHOLD_CACHE_MS) return cached.value;
+
+    const value = getFirstTokenPercentile(tier, 0.9, MIN_SAMPLES) ?? DEFAULT_THRESHOLD_MS;
+    thresholdCache.set(tier, { value, at: now });
+    return value;
+}
+
+type Race = { winner: HedgeRole | null; claim(role: HedgeRole): void };
+
+/** Forwards to the real response only once its attempt has won the race. */
+class RaceSink implements ResponseSink {
+    constructor(private race: Race, private role: HedgeRole, private res: ResponseSink) { }
+
+    get headersSent(): boolean {
+        return this.race.winner === this.role && this.res.headersSent;
+    }
+
+    get writableEnded(): boolean {
+        return this.race.winner === this.role ? this.res.writableEnded : this.race.winner !== null;
+    }
+
+    writeHead(statusCode: number, headers?: Record<string, string>): this {
+        if (this.race.winner === null) this.race.claim(this.role);
+        if (this.race.winner === this.role) this.res.writeHead(statusCode, headers);
+        return this;
+    }
+
+    write(chunk: string): boolean {
+        if (this.race.winner === this.role) this.res.write(chunk);
+        return true;
+    }
+
+    end(chunk?: string): this {
+        if (this.race.winner === this.role) this.res.end(chunk);
+        return this;
+    }
+}
+
+/**
+ * Run `primary`, firing `backup` alongside it if nothing has been written
+ * after `thresholdMs`. Waits for both attempts to settle; the loser is
+ * aborted with HEDGE_LOST as soon as the winner starts responding.
+ */
+export async function runHedged(
+    res: ResponseSink,
+    thresholdMs: number,
+    clientSignal: AbortSignal,
+    primary: HedgeAttempt,
+    backup: HedgeAttempt,
+): Promise<HedgeOutcome> {
+    let hedged = false;
+    let onClaim = () => { };
+    const claimed = new Promise<void>((resolve) => (onClaim = resolve));
+    const controllers: Record<HedgeRole, AbortController> = {
+        primary: new AbortController(),
+        hedge: new AbortController(),
+    };
+    const race: Race = {
+        winner: null,
+        claim(role) {
+            this.winner = role;
+            controllers[role === "primary" ? "hedge" : "primary"].abort(HEDGE_LOST);
+            onClaim();
+        },
+    };
+    const errors: HedgeOutcome["errors"] = {};
+
+    const start = (role: HedgeRole, attempt: HedgeAttempt) =>
+        attempt(
+            new RaceSink(race, role, res),
+            AbortSignal.any([clientSignal, controllers[role].signal]),
+            { role, get active() { return hedged; } },
+        ).catch((err) => {
+            if (!controllers[role].signal.aborted) errors[role] = err;
+        });
+
+    const primaryDone = start("primary", primary);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const elapsed = new Promise<void>((resolve) => (timer = setTimeout(resolve, thresholdMs)));
+    let primarySettled = false;
+    await Promise.race([primaryDone.then(() => (primarySettled = true)), claimed, elapsed]);
+    clearTimeout(timer);
+
+    let backupDone: Promise<void> = Promise.resolve();
+    if (race.winner === null && !primarySettled && !clientSignal.aborted) {
+        hedged = true;
+        backupDone = start("hedge", backup);
+    }
+
+    await Promise.all([primaryDone, backupDone]);
+    return { winner: race.winner, hedged, errors };
+}
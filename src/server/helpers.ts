@@ -1,8 +1,10 @@
-import type { IncomingMessage } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
 import type { RoutingDecision } from "../router/index.js";
 import type { RequestStats } from "../shared/types.js";
 import { findModel } from "../models/registry.js";
-import { logger } from "../shared/logger.js";
+import { createLogger } from "../shared/logger.js";
+
+const logger = createLogger("server");
 
 // ── Request body parsing ────────────────────────────────────────────
 
@@ -15,6 +17,20 @@ export function readBody(req: IncomingMessage): Promise<string> {
     });
 }
 
+// ── Client disconnect ───────────────────────────────────────────────
+
+/**
+ * Signal that aborts when the client connection closes before the response
+ * has been fully written.
+ */
+export function clientAbortSignal(res: ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.once("close", () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+}
+
 // ── Formatting Helpers ──────────────────────────────────────────────
 
 export function formatDuration(ms: number): string {
@@ -105,10 +121,40 @@ export function doAuditLog(stats: RequestStats) {
         `Cost: ${costStr} (est: ${estStr}) | ` +
         `Acc: ${stats.profileId} | ` +
         `Status: ${stats.success ? "\x1b[32mOK\x1b[0m" : "\x1b[31mERR\x1b[0m"}${stats.error ? ` (${stats.error})` : ""
-        }`
+        }`,
+        {
+            task: stats.task,
+            provider: stats.provider,
+            model: stats.model,
+            realModel: stats.realModel ?? stats.model,
+            tier: stats.tier,
+            tierScore: stats.tierScore,
+            costUsd: stats.actualCostUsd ?? 0,
+            estimatedCostUsd: stats.estimatedCostUsd ?? 0,
+            profile: stats.profileId,
+            status: stats.cancelled ? "cancelled" : stats.success ? "ok" : "error",
+            error: stats.error,
+            failureReason: stats.failureReason,
+            latencyMs: stats.latencyMs,
+        }
     );
 }
 
+// ── Client API Key ──────────────────────────────────────────────────
+
+/**
+ * Client key from `Authorization: Bearer …` (OpenAI style) or
+ * `x-api-key` (Anthropic style).
+ */
+export function getClientApiKey(req: Pick<IncomingMessage, "headers">): string | undefined {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith("Bearer ")) {
+        return authHeader.slice(7);
+    }
+    const apiKey = req.headers["x-api-key"];
+    return typeof apiKey === "string" ? apiKey : undefined;
+}
+
 // ── Cookie Parser ───────────────────────────────────────────────────
 
 export function parseCookies(req: IncomingMessage): Record<string, string> {
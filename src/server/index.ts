@@ -1,14 +1,23 @@
 import { createServer, Server } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
 import { getAvailableProviders, loadStore } from "../auth/store.js";
-import { logger } from "../shared/logger.js";
+import { startTokenRefresher } from "../auth/token-refresh.js";
+import { startCapturePruner } from "../storage/captures.js";
+import { createLogger } from "../shared/logger.js";
+import { flushTraces } from "../shared/tracing.js";
+import { REQUEST_ID_HEADER, newRequestId, resolveClientRequestId, runWithRequestId } from "../shared/request-context.js";
 
 import {
     handleChatCompletion,
+    handleAnthropicMessages,
     handleModels,
     handleHealth,
+    handleMetrics,
     handleStatic,
     handleApiStats,
+    handleApiCapture,
     handleApiConfig,
+    handleApiRouting,
     handleAddProfile,
     handleDeleteProfile,
     handleApiKeys,
@@ -19,70 +28,23 @@ import {
 } from "./handlers.js";
 import { requireDashboardAuth } from "./middleware.js";
 
+const logger = createLogger("server");
+
 const DEFAULT_PORT = 3402;
 
 export function startProxy(port?: number): Server {
     const p = port ?? Number(process.env.SMART_ROUTER_PORT) ?? DEFAULT_PORT;
 
-    const server = createServer(async (req, res) => {
-        const url = new URL(req.url ?? "/", `http://localhost:${p}`);
-
-        // CORS
-        res.setHeader("Access-Control-Allow-Origin", "*");
-        res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-        res.setHeader(
-            "Access-Control-Allow-Headers",
-            "Content-Type, Authorization"
-        );
-
-        if (req.method === "OPTIONS") {
-            res.writeHead(204);
-            res.end();
-            return;
-        }
+    // Fail fast on a store we can't read (e.g. encrypted, no master key)
+    loadStore();
 
-        try {
-            if (url.pathname === "/v1/chat/completions" && req.method === "POST") {
-                await handleChatCompletion(req, res);
-            } else if (url.pathname === "/v1/models" && req.method === "GET") {
-                await handleModels(req, res);
-            } else if (url.pathname === "/health" && req.method === "GET") {
-                await handleHealth(req, res);
-            } else if (url.pathname.startsWith("/api/")) {
-                // API Routes
-                if (url.pathname === "/api/auth/dashboard-login" && req.method === "POST") {
-                    await handleDashboardLogin(req, res);
-                } else if (url.pathname === "/api/auth/logout" && req.method === "POST") {
-                    await handleDashboardLogout(req, res);
-                } else if (url.pathname === "/api/auth/status" && req.method === "GET") {
-                    await handleAuthStatus(req, res);
-                } else if (url.pathname === "/api/stats") {
-                    if (requireDashboardAuth(req, res)) await handleApiStats(req, res);
-                } else if (url.pathname === "/api/config") {
-                    if (requireDashboardAuth(req, res)) await handleApiConfig(req, res);
-                } else if (url.pathname === "/api/profile" && req.method === "POST") {
-                    if (requireDashboardAuth(req, res)) await handleAddProfile(req, res);
-                } else if (url.pathname === "/api/profile" && req.method === "DELETE") {
-                    if (requireDashboardAuth(req, res)) await handleDeleteProfile(req, res);
-                } else if (url.pathname === "/api/keys") {
-                    if (requireDashboardAuth(req, res)) await handleApiKeys(req, res);
-                } else if (url.pathname === "/api/auth/login" && req.method === "POST") {
-                    if (requireDashboardAuth(req, res)) await handleAuthLogin(req, res);
-                } else {
-                    res.writeHead(404, { "Content-Type": "application/json" });
-                    res.end(JSON.stringify({ error: { message: "API endpoint not found" } }));
-                }
-            } else {
-                // Static files & SPA fallback
-                await handleStatic(req, res);
-            }
-        } catch (err: any) {
-            logger.error("Request error:", err?.message ?? err);
-            if (!res.headersSent) {
-                res.writeHead(500, { "Content-Type": "application/json" });
-                res.end(JSON.stringify({ error: { message: "Internal error" } }));
-            }
-        }
+    const server = createServer((req, res) => {
+        // Correlation id: tags this request's log records, echoed to the client
+        const requestId = newRequestId();
+        const clientRequestId = resolveClientRequestId(req.headers[REQUEST_ID_HEADER]);
+        res.setHeader("X-Request-Id", requestId);
+        if (clientRequestId) res.setHeader("X-Client-Request-Id", clientRequestId);
+        return runWithRequestId(requestId, () => handleRequest(req, res, p), clientRequestId);
     });
 
     server.listen(p, () => {
@@ -94,10 +56,91 @@ export function startProxy(port?: number): Server {
         );
         logger.info(`\nEndpoints:`);
         logger.info(`  POST /v1/chat/completions  — OpenAI-compatible`);
+        logger.info(`  POST /v1/messages          — Anthropic-compatible`);
         logger.info(`  GET  /v1/models            — List providers`);
         logger.info(`  GET  /health               — Health check`);
+        logger.info(`  GET  /metrics              — Prometheus metrics`);
         logger.info(`  GET  /dashboard            — Dashboard UI`);
     });
 
+    // Renew OAuth tokens before they expire instead of on a user's request
+    const stopTokenRefresher = startTokenRefresher();
+    server.on("close", stopTokenRefresher);
+
+    // Expired payload captures go even if nothing is being captured any more
+    const stopCapturePruner = startCapturePruner();
+    server.on("close", stopCapturePruner);
+    server.on("close", () => void flushTraces());
+
     return server;
 }
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse, port: number): Promise<void> {
+    const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+
+    // CORS
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
+    res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization, x-api-key, anthropic-version, x-smart-router-session, x-smart-router-max-wait, x-request-id"
+    );
+    res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, X-Client-Request-Id");
+
+    if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    try {
+        if (url.pathname === "/v1/chat/completions" && req.method === "POST") {
+            await handleChatCompletion(req, res);
+        } else if (url.pathname === "/v1/messages" && req.method === "POST") {
+            await handleAnthropicMessages(req, res);
+        } else if (url.pathname === "/v1/models" && req.method === "GET") {
+            await handleModels(req, res);
+        } else if (url.pathname === "/health" && req.method === "GET") {
+            await handleHealth(req, res);
+        } else if (url.pathname === "/metrics" && req.method === "GET") {
+            await handleMetrics(req, res);
+        } else if (url.pathname.startsWith("/api/")) {
+            // API Routes
+            if (url.pathname === "/api/auth/dashboard-login" && req.method === "POST") {
+                await handleDashboardLogin(req, res);
+            } else if (url.pathname === "/api/auth/logout" && req.method === "POST") {
+                await handleDashboardLogout(req, res);
+            } else if (url.pathname === "/api/auth/status" && req.method === "GET") {
+                await handleAuthStatus(req, res);
+            } else if (url.pathname === "/api/stats") {
+                if (requireDashboardAuth(req, res)) await handleApiStats(req, res);
+            } else if (url.pathname === "/api/capture" && req.method === "GET") {
+                if (requireDashboardAuth(req, res)) await handleApiCapture(req, res);
+            } else if (url.pathname === "/api/config") {
+                if (requireDashboardAuth(req, res)) await handleApiConfig(req, res);
+            } else if (url.pathname === "/api/routing") {
+                if (requireDashboardAuth(req, res)) await handleApiRouting(req, res);
+            } else if (url.pathname === "/api/profile" && req.method === "POST") {
+                if (requireDashboardAuth(req, res)) await handleAddProfile(req, res);
+            } else if (url.pathname === "/api/profile" && req.method === "DELETE") {
+                if (requireDashboardAuth(req, res)) await handleDeleteProfile(req, res);
+            } else if (url.pathname === "/api/keys") {
+                if (requireDashboardAuth(req, res)) await handleApiKeys(req, res);
+            } else if (url.pathname === "/api/auth/login" && req.method === "POST") {
+                if (requireDashboardAuth(req, res)) await handleAuthLogin(req, res);
+            } else {
+                res.writeHead(404, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ error: { message: "API endpoint not found" } }));
+            }
+        } else {
+            // Static files & SPA fallback
+            await handleStatic(req, res);
+        }
+    } catch (err: any) {
+        logger.error("Request error:", err?.message ?? err);
+        if (!res.headersSent) {
+            res.writeHead(500, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: { message: "Internal error" } }));
+        }
+    }
+}
@@ -1,60 +1,168 @@
-import type { ServerResponse } from "node:http";
 import type { RoutingDecision } from "../router/index.js";
 import { getProvider } from "../providers/index.js";
 import {
-    upsertProfile,
     markProfileFailure,
+    incrementProfileUsage,
 } from "../auth/store.js";
 import { recordRequest } from "../storage/stats.js";
-import { logger } from "../shared/logger.js";
+import { createLogger } from "../shared/logger.js";
 import type {
     ChatCompletionRequest,
     ChatCompletionResponse,
+    FailureReason,
     ProfileCredential,
-    OAuthCredential,
     RequestStats,
 } from "../shared/types.js";
+import {
+    ANTHROPIC_STREAM_EVENTS,
+    createAnthropicStreamState,
+    anthropicEventToDelta,
+} from "../providers/anthropic.js";
+import { estimatePromptTokens } from "../models/tokens.js";
+import { needsRefresh, refreshProfile } from "../auth/token-refresh.js";
 import { getTask, calculateCost, doAuditLog } from "./helpers.js";
+import { createUpstreamGuard, resolveTimeouts } from "./upstream-guard.js";
+import type { UpstreamGuard } from "./upstream-guard.js";
+import { HEDGE_LOST } from "./hedge.js";
+import { withSpan } from "../shared/tracing.js";
+import type { Span } from "../shared/tracing.js";
+import type { HedgeMarker } from "./hedge.js";
+
+const logger = createLogger("proxy");
 
 // Set to true to log raw upstream responses to console
 const DEBUG_RAW = process.env.DEBUG_RAW === "1";
 
+/**
+ * Minimal response surface the proxy writes to. A plain ServerResponse
+ * satisfies it; ingress adapters (e.g. Anthropic /v1/messages) implement it
+ * to translate OpenAI-shaped output on the fly.
+ */
+export interface ResponseSink {
+    readonly headersSent: boolean;
+    readonly writableEnded: boolean;
+    writeHead(statusCode: number, headers?: Record<string, string>): unknown;
+    write(chunk: string): unknown;
+    end(chunk?: string): unknown;
+}
+
+/**
+ * True when an OpenAI chunk carries output the client would see: text,
+ * reasoning or tool calls. Role-only and finish chunks don't count.
+ */
+function hasContentDelta(chunk: any): boolean {
+    const delta = chunk?.choices?.[0]?.delta;
+    if (!delta) return false;
+    return Boolean(delta.content || delta.reasoning_content || delta.tool_calls?.length);
+}
+
+// ── Aborted attempts ────────────────────────────────────────────────
+
+/**
+ * Record a deadline abort and build the error that sends the handler to the
+ * next candidate. The profile is charged a `timeout` like an idle stream, so
+ * one that always hangs before answering cools down instead of being retried.
+ */
+function upstreamTimeout(guard: UpstreamGuard, stats: RequestStats): Error {
+    const message = guard.signal.reason?.message ?? `${guard.expired} timeout`;
+    logger.error(`${stats.provider} ${message}`);
+    markProfileFailure(stats.profileId, "timeout");
+    const failStats: RequestStats = { ...stats, error: message, failureReason: "timeout" };
+    recordRequest(failStats);
+    doAuditLog(failStats);
+    return Object.assign(new Error(`${stats.provider} ${message}`), { reason: "timeout" });
+}
+
+/**
+ * The attempt was aborted from our side. Either the client went away (not
+ * the provider's fault, and nobody left to fail over for) or its hedged twin
+ * answered first, which is recorded as a cancelled attempt.
+ */
+function attemptCancelled(signal: AbortSignal | undefined, stats: RequestStats): Error {
+    const lostHedge = signal?.reason === HEDGE_LOST;
+    if (lostHedge) {
+        const lostStats: RequestStats = { ...stats, error: "cancelled: hedge lost", cancelled: true };
+        recordRequest(lostStats);
+        doAuditLog(lostStats);
+    } else {
+        logger.warn(`Client disconnected, aborted ${stats.provider} request`);
+    }
+    return Object.assign(new Error(`${stats.provider} request cancelled`), {
+        reason: "unknown",
+        clientClosed: !lostHedge,
+    });
+}
+
 // ── Token refresh helper ────────────────────────────────────────────
 
+/**
+ * The credential to send. The background refresher normally renews tokens
+ * before they expire; a token that is about to expire gets its refresh
+ * kicked off here, and an expired one waits for it. A token that can't be
+ * refreshed fails the attempt without a cooldown, rather than sending it
+ * anyway.
+ */
 export async function ensureFreshToken(
     providerId: string,
     profileId: string,
     cred: ProfileCredential
 ): Promise<ProfileCredential> {
-    if (cred.type !== "oauth") return cred;
-    const oauth = cred as OAuthCredential;
-    if (!oauth.expires || Date.now() < oauth.expires) return cred;
+    if (!needsRefresh(cred)) return cred;
 
-    const provider = getProvider(providerId);
-    if (!provider?.refreshToken) return cred;
+    if (Date.now() < cred.expires) {
+        refreshProfile(profileId).catch(() => { /* logged by the refresher */ });
+        return cred;
+    }
 
     try {
-        logger.info(`Refreshing token for ${profileId}...`);
-        const refreshed = await provider.refreshToken(oauth);
-        const label = profileId.split(":")[1] ?? "default";
-        upsertProfile(providerId, refreshed, label);
-        return refreshed;
-    } catch (err) {
-        logger.warn(`Token refresh failed for ${profileId}:`, err);
-        return cred;
+        return await withSpan(
+            "auth.await_token_refresh",
+            { attributes: { "smart_router.provider": providerId, "smart_router.profile": profileId } },
+            () => refreshProfile(profileId)
+        );
+    } catch (err: any) {
+        throw Object.assign(
+            new Error(`${providerId} token for ${profileId} expired and could not be refreshed: ${err?.message ?? err}`),
+            { reason: "auth" as FailureReason }
+        );
     }
 }
 
 // ── Proxy request to upstream ───────────────────────────────────────
 
-export async function proxyToProvider(
+export function proxyToProvider(
+    providerId: string,
+    profileId: string,
+    credential: ProfileCredential,
+    body: ChatCompletionRequest,
+    isStreaming: boolean,
+    res: ResponseSink,
+    decision: RoutingDecision,
+    clientSignal?: AbortSignal,
+    hedge?: HedgeMarker
+): Promise<void> {
+    const attributes = {
+        "smart_router.provider": providerId,
+        "smart_router.profile": profileId,
+        "smart_router.model": body.model,
+        "smart_router.stream": isStreaming,
+    };
+    return withSpan("upstream.request", { kind: "client", attributes }, (span) =>
+        forwardToProvider(span, providerId, profileId, credential, body, isStreaming, res, decision, clientSignal, hedge)
+    );
+}
+
+async function forwardToProvider(
+    span: Span,
     providerId: string,
     profileId: string,
     credential: ProfileCredential,
     body: ChatCompletionRequest,
     isStreaming: boolean,
-    res: ServerResponse,
-    decision: RoutingDecision
+    res: ResponseSink,
+    decision: RoutingDecision,
+    clientSignal?: AbortSignal,
+    hedge?: HedgeMarker
 ): Promise<void> {
     const provider = getProvider(providerId);
     if (!provider) throw new Error(`Unknown provider: ${providerId}`);
@@ -79,10 +187,12 @@ export async function proxyToProvider(
         ? provider.buildUrl(baseUrl, modelId)
         : `${baseUrl}/chat/completions`;
     const startTime = Date.now();
+    // Host only: some providers carry the API key in the query string
+    span.setAttributes({ "server.address": new URL(url).host });
 
     // Stats prep
     const task = getTask(decision);
-    const estPromptTokens = Math.ceil(JSON.stringify(body.messages).length / 4);
+    const estPromptTokens = estimatePromptTokens(body, modelId, providerId);
     const estimatedCostUsd = calculateCost(modelId, estPromptTokens, 0);
     let promptTokens = estPromptTokens;
     let completionTokens = 0;
@@ -131,18 +241,84 @@ export async function proxyToProvider(
         );
     }
 
-    const upstream = await fetch(url, {
-        method: "POST",
-        headers,
-        body: requestJson,
+    const guard = createUpstreamGuard(resolveTimeouts(providerId), isStreaming, clientSignal);
+
+    // Stats only carry the hedge role once a backup has actually been fired
+    const hedgeRole = () => (hedge?.active ? hedge.role : undefined);
+    const failedStats = (realModel = realModelId): RequestStats => ({
+        timestamp: Date.now(),
+        provider: providerId,
+        model: modelId,
+        realModel,
+        profileId,
+        tier: decision.scoring.tier,
+        tierScore: decision.scoring.totalScore,
+        task,
+        latencyMs: Date.now() - startTime,
+        promptTokens: 0,
+        completionTokens: 0,
+        success: false,
+        hedge: hedgeRole(),
     });
 
+    let upstream: Response;
+    try {
+        upstream = await fetch(url, {
+            method: "POST",
+            headers,
+            body: requestJson,
+            signal: guard.signal,
+        });
+    } catch (err: any) {
+        guard.dispose();
+        if (guard.clientClosed) throw attemptCancelled(clientSignal, failedStats());
+
+        if (guard.expired) {
+            throw upstreamTimeout(guard, failedStats());
+        }
+
+        // Network-level failure (DNS, refused, reset): no HTTP status to classify
+        const message = err?.cause?.message ?? err?.message ?? String(err);
+        logger.error(`Upstream request failed on ${url}: ${message}`);
+        const netStats: RequestStats = {
+            timestamp: Date.now(),
+            provider: providerId,
+            model: modelId,
+            realModel: realModelId,
+            profileId,
+            tier: decision.scoring.tier,
+            tierScore: decision.scoring.totalScore,
+            task,
+            latencyMs: Date.now() - startTime,
+            promptTokens: 0,
+            completionTokens: 0,
+            success: false,
+            error: `network ${message}`,
+            failureReason: "unknown",
+            hedge: hedgeRole(),
+        };
+        recordRequest(netStats);
+        doAuditLog(netStats);
+        throw Object.assign(new Error(`${providerId} request failed: ${message}`), {
+            reason: "unknown",
+        });
+    }
+
     const contentType = upstream.headers.get("Content-Type") ?? "";
     logger.info(`→ POST ${url} (${upstream.status}) [${contentType}]`);
 
+    // Headers are in; streams now wait for their first token
+    guard.arm(isStreaming ? "first_token" : null);
+    const headersAt = Date.now();
+    span.setAttributes({
+        "http.response.status_code": upstream.status,
+        "smart_router.ttfb_ms": headersAt - startTime,
+    });
+
     if (!upstream.ok) {
         const errText = await upstream.text().catch(() => "");
         const status = upstream.status;
+        guard.dispose();
 
         logger.error(
             `Upstream error ${status} on ${url}: ${errText.slice(0, 1000)}`
@@ -266,6 +442,8 @@ export async function proxyToProvider(
             completionTokens: 0,
             success: false,
             error: `${status} ${reason}`,
+            failureReason: reason,
+            hedge: hedgeRole(),
         };
         recordRequest(errStats);
         doAuditLog(errStats);
@@ -292,13 +470,55 @@ export async function proxyToProvider(
         contentType.includes("event-stream") || contentType.includes("stream");
 
     if (isStreaming && upstream.body && isActuallyStreaming) {
-        res.writeHead(200, {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-            "X-Smart-Router-Provider": providerId,
-            "X-Smart-Router-Profile": profileId,
-        });
+        // Hold headers and output until the first content delta: a stream
+        // that fails before producing anything can still fail over to the
+        // next candidate without the client noticing.
+        let committed = false;
+        let firstTokenMs: number | undefined;
+        const pending: string[] = [];
+        const commit = () => {
+            if (committed) return;
+            committed = true;
+            firstTokenMs = Date.now() - startTime;
+            span.addEvent("first_token");
+            span.setAttributes({ "smart_router.first_token_ms": firstTokenMs });
+            guard.arm("idle");
+            res.writeHead(200, {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache",
+                Connection: "keep-alive",
+                "X-Smart-Router-Provider": providerId,
+                "X-Smart-Router-Profile": profileId,
+            });
+            for (const data of pending) res.write(data);
+            pending.length = 0;
+        };
+        const send = (data: string, hasContent = false) => {
+            if (hasContent) commit();
+            if (committed) res.write(data);
+            else pending.push(data);
+        };
+        const sendChunk = (chunk: any) => {
+            send(`data: ${JSON.stringify(chunk)}\n\n`, hasContentDelta(chunk));
+        };
+        let streamFailure: string | null = null;
+
+        // Passthrough: an in-stream error fails the attempt and is not
+        // forwarded; any other line is, committing the stream on content
+        const forwardLine = (line: string) => {
+            let hasContent = false;
+            if (line.startsWith("data:")) {
+                try {
+                    const chunk = JSON.parse(line.slice(5).trim());
+                    if (chunk.error) {
+                        streamFailure = chunk.error.message ?? JSON.stringify(chunk.error);
+                        return;
+                    }
+                    hasContent = hasContentDelta(chunk);
+                } catch { }
+            }
+            send(line, hasContent);
+        };
 
         const reader = upstream.body.getReader();
         const decoder = new TextDecoder();
@@ -309,25 +529,39 @@ export async function proxyToProvider(
         const needsTransform = !provider.isOpenAICompatible;
 
         let sseBuffer = "";
+        // Passthrough: partial line carried over to the next read
+        let lineBuffer = "";
         let debugModel = realModelId;
+        const anthropicState = createAnthropicStreamState();
+        // Responses API item_id → OpenAI tool_calls index
+        const codexToolIndex = new Map<string, number>();
+        let geminiToolCount = 0;
 
         try {
             while (true) {
                 const { done, value } = await reader.read();
-                if (done) break;
+                if (done) {
+                    // A last line without a trailing newline
+                    if (!needsTransform && lineBuffer) forwardLine(lineBuffer);
+                    break;
+                }
+                if (committed) guard.arm("idle");
 
                 const text = decoder.decode(value, { stream: true });
                 if (process.env.DEBUG_RAW) console.log("RAW STREAM:", text);
 
                 if (!needsTransform) {
+                    // Only whole lines are parsed: a data: line can span two reads
+                    lineBuffer += text.replace(/\r\n/g, "\n");
+                    const lines = lineBuffer.split("\n");
+                    lineBuffer = lines.pop() ?? "";
+
                     if (DEBUG_RAW) {
                         process.stdout.write(
                             text.replace(/data: /g, "").replace(/\n\n/g, "")
                         );
                     } else {
-                        const dataLines = text
-                            .split("\n")
-                            .filter((l) => l.startsWith("data:"));
+                        const dataLines = lines.filter((l) => l.startsWith("data:"));
                         for (const line of dataLines) {
                             const data = line.replace(/^data:\s*/, "").trim();
                             if (data === "[DONE]") continue;
@@ -347,7 +581,13 @@ export async function proxyToProvider(
                             } catch { }
                         }
                     }
-                    res.write(text);
+                    // Line by line, so content ahead of an error in the same
+                    // read still reaches the client
+                    for (const line of lines) {
+                        forwardLine(line + "\n");
+                        if (streamFailure) break;
+                    }
+                    if (streamFailure) break;
                     continue;
                 }
 
@@ -365,7 +605,7 @@ export async function proxyToProvider(
 
                     for (const data of dataLines) {
                         if (data === "[DONE]") {
-                            res.write("data: [DONE]\n\n");
+                            send("data: [DONE]\n\n");
                             continue;
                         }
 
@@ -460,7 +700,66 @@ export async function proxyToProvider(
                                         },
                                     ],
                                 };
-                                res.write(`data: ${JSON.stringify(openAIChunk)}\n\n`);
+                                sendChunk(openAIChunk);
+                            }
+
+                            if (
+                                event.type === "response.output_item.added" &&
+                                event.item?.type === "function_call"
+                            ) {
+                                const toolIndex = codexToolIndex.size;
+                                codexToolIndex.set(event.item.id, toolIndex);
+                                const openAIChunk = {
+                                    id: `chatcmpl-${Date.now()}`,
+                                    object: "chat.completion.chunk",
+                                    created: Math.floor(Date.now() / 1000),
+                                    model: streamModelId,
+                                    choices: [
+                                        {
+                                            index: 0,
+                                            delta: {
+                                                tool_calls: [
+                                                    {
+                                                        index: toolIndex,
+                                                        id: event.item.call_id,
+                                                        type: "function",
+                                                        function: { name: event.item.name, arguments: "" },
+                                                    },
+                                                ],
+                                            },
+                                            finish_reason: null,
+                                        },
+                                    ],
+                                };
+                                sendChunk(openAIChunk);
+                            }
+
+                            if (
+                                event.type === "response.function_call_arguments.delta" &&
+                                event.delta &&
+                                codexToolIndex.has(event.item_id)
+                            ) {
+                                const openAIChunk = {
+                                    id: `chatcmpl-${Date.now()}`,
+                                    object: "chat.completion.chunk",
+                                    created: Math.floor(Date.now() / 1000),
+                                    model: streamModelId,
+                                    choices: [
+                                        {
+                                            index: 0,
+                                            delta: {
+                                                tool_calls: [
+                                                    {
+                                                        index: codexToolIndex.get(event.item_id),
+                                                        function: { arguments: event.delta },
+                                                    },
+                                                ],
+                                            },
+                                            finish_reason: null,
+                                        },
+                                    ],
+                                };
+                                sendChunk(openAIChunk);
                             }
 
                             if (
@@ -476,7 +775,8 @@ export async function proxyToProvider(
                                         {
                                             index: 0,
                                             delta: {},
-                                            finish_reason: "stop",
+                                            finish_reason:
+                                                codexToolIndex.size > 0 ? "tool_calls" : "stop",
                                         },
                                     ],
                                     usage: event.response?.usage
@@ -488,8 +788,8 @@ export async function proxyToProvider(
                                         }
                                         : undefined,
                                 };
-                                res.write(`data: ${JSON.stringify(finalChunk)}\n\n`);
-                                res.write("data: [DONE]\n\n");
+                                sendChunk(finalChunk);
+                                send("data: [DONE]\n\n");
                             }
 
                             // ── Gemini SSE format ──
@@ -500,8 +800,27 @@ export async function proxyToProvider(
                                         .filter((p: any) => p.text && !p.thoughtSignature)
                                         .map((p: any) => p.text)
                                         .join("");
-                                    if (textContent) {
-                                        if (!DEBUG_RAW) process.stdout.write(textContent);
+                                    // Gemini sends each functionCall whole, never as partial args
+                                    const toolCalls = parts
+                                        .filter((p: any) => p.functionCall)
+                                        .map((p: any) => {
+                                            const index = geminiToolCount++;
+                                            return {
+                                                index,
+                                                id: p.functionCall.id ?? `call_${Date.now()}_${index}`,
+                                                type: "function",
+                                                function: {
+                                                    name: p.functionCall.name,
+                                                    arguments: JSON.stringify(p.functionCall.args ?? {}),
+                                                },
+                                            };
+                                        });
+                                    const isStop = cand.finishReason === "STOP";
+                                    if (textContent || toolCalls.length > 0 || (isStop && geminiToolCount > 0)) {
+                                        if (textContent && !DEBUG_RAW) process.stdout.write(textContent);
+                                        const delta: Record<string, unknown> = {};
+                                        if (textContent) delta.content = textContent;
+                                        if (toolCalls.length > 0) delta.tool_calls = toolCalls;
                                         const openAIChunk = {
                                             id: `chatcmpl-${Date.now()}`,
                                             object: "chat.completion.chunk",
@@ -510,58 +829,142 @@ export async function proxyToProvider(
                                             choices: [
                                                 {
                                                     index: 0,
-                                                    delta: { content: textContent },
-                                                    finish_reason:
-                                                        cand.finishReason === "STOP" ? "stop" : null,
+                                                    delta,
+                                                    finish_reason: isStop
+                                                        ? geminiToolCount > 0 ? "tool_calls" : "stop"
+                                                        : null,
                                                 },
                                             ],
                                         };
-                                        res.write(`data: ${JSON.stringify(openAIChunk)}\n\n`);
+                                        sendChunk(openAIChunk);
                                     }
                                     if (cand.finishReason === "STOP") {
-                                        res.write("data: [DONE]\n\n");
+                                        send("data: [DONE]\n\n");
                                     }
                                 }
                             }
 
+                            // ── Anthropic Messages format ──
+                            if (ANTHROPIC_STREAM_EVENTS.has(event.type)) {
+                                const part = anthropicEventToDelta(event, anthropicState);
+                                if (part) {
+                                    const openAIChunk = {
+                                        id: anthropicState.id,
+                                        object: "chat.completion.chunk",
+                                        created: Math.floor(Date.now() / 1000),
+                                        model: streamModelId,
+                                        choices: [
+                                            {
+                                                index: 0,
+                                                delta: part.delta,
+                                                finish_reason: part.finish_reason,
+                                            },
+                                        ],
+                                        usage: part.usage,
+                                    };
+                                    sendChunk(openAIChunk);
+                                }
+                                if (anthropicState.model) debugModel = anthropicState.model;
+                                if (anthropicState.promptTokens) promptTokens = anthropicState.promptTokens;
+                                completionTokens = anthropicState.completionTokens;
+                                if (event.type === "message_stop") {
+                                    send("data: [DONE]\n\n");
+                                }
+                            }
+
                             // ── Error events ──
                             if (
                                 event.type === "error" ||
                                 event.type === "response.failed" ||
                                 event.error
                             ) {
-                                const msg =
+                                streamFailure =
                                     event.message ||
                                     event.error?.message ||
                                     event.response?.error?.message ||
                                     "Unknown error";
-                                const errorChunk = {
-                                    id: `chatcmpl-${Date.now()}`,
-                                    object: "chat.completion.chunk",
-                                    created: Math.floor(Date.now() / 1000),
-                                    model: streamModelId,
-                                    choices: [
-                                        {
-                                            index: 0,
-                                            delta: { content: `\n\n[Error: ${msg}]` },
-                                            finish_reason: "stop",
-                                        },
-                                    ],
-                                };
-                                res.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
-                                res.write("data: [DONE]\n\n");
                             }
                         } catch {
                             // Ignore unparseable lines
                         }
+                        if (streamFailure) break;
                     }
+                    if (streamFailure) break;
                     idx = sseBuffer.indexOf("\n\n");
                 }
+                if (streamFailure) break;
+            }
+        } catch (err: any) {
+            // Connection reset, body read failure or an aborted deadline
+            streamFailure = guard.expired
+                ? guard.signal.reason.message
+                : err?.cause?.message ?? err?.message ?? "stream interrupted";
+        }
+        guard.dispose();
+
+        if (guard.clientClosed) {
+            reader.cancel().catch(() => { });
+            if (!res.writableEnded) res.end();
+            throw attemptCancelled(clientSignal, {
+                ...failedStats(debugModel),
+                promptTokens,
+                completionTokens,
+            });
+        }
+
+        if (streamFailure) {
+            const reason: FailureReason = guard.expired ? "timeout" : "unknown";
+            reader.cancel().catch(() => { });
+            logger.error(
+                `${providerId} stream failed ${committed ? "mid-stream" : "before first token"}: ${streamFailure}`
+            );
+            markProfileFailure(profileId, reason);
+
+            span.setAttributes({ "smart_router.stream_ms": Date.now() - headersAt });
+            const failStats: RequestStats = {
+                timestamp: Date.now(),
+                provider: providerId,
+                model: modelId,
+                realModel: debugModel,
+                profileId,
+                tier: decision.scoring.tier,
+                tierScore: decision.scoring.totalScore,
+                task,
+                latencyMs: Date.now() - startTime,
+                firstTokenMs,
+                promptTokens,
+                completionTokens,
+                success: false,
+                error: `stream ${streamFailure}`,
+                failureReason: reason,
+                hedge: hedgeRole(),
+            };
+            recordRequest(failStats);
+            doAuditLog(failStats);
+
+            if (committed) {
+                // Tokens already reached the client; end with an OpenAI error chunk
+                res.write(
+                    `data: ${JSON.stringify({
+                        error: {
+                            message: streamFailure,
+                            type: "upstream_error",
+                            code: "stream_interrupted",
+                        },
+                    })}\n\n`
+                );
+                res.end();
             }
-        } finally {
-            res.end();
+            throw Object.assign(new Error(`${providerId} stream failed: ${streamFailure}`), {
+                reason,
+                streamStarted: committed,
+            });
         }
 
+        commit();
+        res.end();
+        span.setAttributes({ "smart_router.stream_ms": Date.now() - headersAt });
+
         const stats: RequestStats = {
             timestamp: Date.now(),
             provider: providerId,
@@ -572,16 +975,28 @@ export async function proxyToProvider(
             tierScore: decision.scoring.totalScore,
             task,
             latencyMs: Date.now() - startTime,
+            firstTokenMs,
             promptTokens,
             completionTokens,
             estimatedCostUsd,
             actualCostUsd: calculateCost(modelId, promptTokens, completionTokens),
             success: true,
+            hedge: hedgeRole(),
         };
+        incrementProfileUsage(profileId, providerId, stats.promptTokens + stats.completionTokens);
         recordRequest(stats);
         doAuditLog(stats);
     } else {
-        const responseText = await upstream.text();
+        let responseText: string;
+        try {
+            responseText = await upstream.text();
+        } catch (err) {
+            guard.dispose();
+            if (guard.clientClosed) throw attemptCancelled(clientSignal, failedStats());
+            if (!guard.expired) throw err;
+            throw upstreamTimeout(guard, failedStats());
+        }
+        guard.dispose();
 
         if (DEBUG_RAW) {
             console.log(`\x1b[36m[RAW ${providerId}]\x1b[0m Non-streaming response:`);
@@ -652,7 +1067,7 @@ export async function proxyToProvider(
         const stats: RequestStats = {
             timestamp: Date.now(),
             provider: providerId,
-            model: parsed.model ?? body.model ?? "unknown",
+            model: modelId,
             realModel: parsed.model ?? realModelId,
             profileId,
             tier: decision.scoring.tier,
@@ -664,7 +1079,9 @@ export async function proxyToProvider(
             estimatedCostUsd,
             actualCostUsd: actualCost,
             success: true,
+            hedge: hedgeRole(),
         };
+        incrementProfileUsage(profileId, providerId, stats.promptTokens + stats.completionTokens);
         recordRequest(stats);
         doAuditLog(stats);
     }
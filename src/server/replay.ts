@@ -0,0 +1,124 @@
+import { getApiKeyForProvider, pickNextProfile, acquireProfileSlot, buildProfileId } from "../auth/store.js";
+import { findModel } from "../models/registry.js";
+import { runWithRequestId } from "../shared/request-context.js";
+import { getRequestAttempts } from "../storage/stats.js";
+import type { StoredCapture } from "../storage/captures.js";
+import type { RoutingDecision } from "../router/index.js";
+import type { ChatCompletionRequest, RequestStats } from "../shared/types.js";
+import { ResponseCollector } from "./capture.js";
+import { routeReplay } from "./handlers.js";
+import { proxyToProvider } from "./proxy-upstream.js";
+
+// ── Request replay ──────────────────────────────────────────────────
+// Re-sends a captured request, either straight to one provider/model via
+// proxyToProvider or through the full router (picking up the current
+// routing config). The replay runs under its own request id, so its
+// attempts land in the stats table like any request and can be compared
+// with the original's. Aborting `signal` (Ctrl-C, --timeout) cancels the
+// upstream call the same way a client disconnect does.
+
+export type ReplayTarget = {
+    /** Send to this provider directly instead of routing */
+    provider?: string;
+    /** Model to ask for; with no provider, "auto" or a model id goes through the router */
+    model?: string;
+};
+
+export type ReplayResult = {
+    requestId: string;
+    /** "router" or the provider/model the request was sent to */
+    via: string;
+    status: number;
+    response: unknown;
+    /** Upstream attempts recorded for the replay, oldest first */
+    attempts: RequestStats[];
+    /** Wall time of the whole replay */
+    elapsedMs: number;
+    /** Why a direct replay failed, when it did */
+    error?: string;
+};
+
+export async function replayCapture(
+    capture: StoredCapture,
+    target: ReplayTarget = {},
+    signal: AbortSignal = new AbortController().signal
+): Promise<ReplayResult> {
+    if (typeof capture.request !== "object" || capture.request === null) {
+        throw new Error(`The request for ${capture.requestId} was truncated when captured and can't be replayed`);
+    }
+    const body = JSON.parse(JSON.stringify(capture.request)) as ChatCompletionRequest;
+    if (target.model) body.model = target.model;
+
+    const requestId = `${capture.requestId}.replay-${Date.now().toString(36)}`;
+    const sink = new ResponseCollector();
+    const startTime = Date.now();
+    let via = "router";
+    let error: string | undefined;
+
+    await runWithRequestId(requestId, async () => {
+        if (!target.provider) {
+            await routeReplay(body, sink, signal);
+            return;
+        }
+        const model = target.model ?? body.model;
+        if (!model || model === "auto" || model.includes("/auto")) {
+            throw new Error("--model is required with --provider when the captured request asked for auto");
+        }
+        via = `${target.provider}/${model}`;
+        try {
+            await replayDirect(target.provider, model, body, sink, signal);
+        } catch (err: any) {
+            error = err?.message ?? String(err);
+        }
+    });
+    if (signal.aborted) error = `Aborted: ${signal.reason?.message ?? signal.reason}`;
+
+    return {
+        requestId,
+        via,
+        status: sink.status,
+        response: sink.result(),
+        attempts: getRequestAttempts(requestId),
+        elapsedMs: Date.now() - startTime,
+        error,
+    };
+}
+
+/** One attempt against `providerId`, with the credential the router would pick. */
+async function replayDirect(
+    providerId: string,
+    model: string,
+    body: ChatCompletionRequest,
+    sink: ResponseCollector,
+    signal: AbortSignal
+): Promise<void> {
+    const picked = pickNextProfile(providerId, model);
+    const apiKey = picked ? null : getApiKeyForProvider(providerId);
+    if (!picked && !apiKey) throw new Error(`No usable credentials for ${providerId}`);
+    const profileId = picked?.profileId ?? buildProfileId(providerId, "env");
+    const credential = picked?.credential ?? { type: "api_key" as const, provider: providerId, key: apiKey! };
+
+    const decision: RoutingDecision = {
+        selectedProvider: providerId,
+        selectedModel: findModel(model)?.id ?? model,
+        fallbackChain: [],
+        reason: "REPLAY",
+        scoring: { tier: "SIMPLE", totalScore: 0, confidence: 1, dimensions: [] },
+    };
+
+    const release = acquireProfileSlot(profileId);
+    try {
+        await proxyToProvider(
+            providerId,
+            profileId,
+            credential,
+            { ...body, model: decision.selectedModel },
+            body.stream === true,
+            sink,
+            decision,
+            signal
+        );
+    } finally {
+        release();
+    }
+}
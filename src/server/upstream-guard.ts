@@ -0,0 +1,97 @@
+import type { UpstreamTimeouts } from "../router/types.js";
+import { getRoutingConfig } from "../router/config-store.js";
+
+// ── Upstream deadlines ──────────────────────────────────────────────
+// One AbortController per upstream attempt. It fires when a phase deadline
+// passes (connect → first token → idle between chunks), when the overall
+// budget runs out, or when the client goes away. Callers read `expired` /
+// `clientClosed` afterwards to tell which one happened.
+
+export type TimeoutPhase = "connect" | "first_token" | "idle" | "total";
+
+export type UpstreamGuard = {
+    signal: AbortSignal;
+    /** Deadline that aborted the request, or null */
+    readonly expired: TimeoutPhase | null;
+    /** The client disconnected before the attempt finished */
+    readonly clientClosed: boolean;
+    /** Replace the running phase deadline; null leaves only the total budget */
+    arm(phase: Exclude<TimeoutPhase, "total"> | null): void;
+    dispose(): void;
+};
+
+/** Effective timeouts for a provider: defaults with its overrides applied. */
+export function resolveTimeouts(providerId: string, config = getRoutingConfig()): UpstreamTimeouts {
+    return { ...config.timeouts.default, ...config.timeouts.providers[providerId] };
+}
+
+/**
+ * Start the deadlines for one attempt. Streaming requests begin in the
+ * connect phase; non-streaming providers usually send headers only once the
+ * completion is generated, so their header wait gets the larger of the
+ * connect and first-token limits. A limit of 0 disables that deadline.
+ */
+export function createUpstreamGuard(
+    timeouts: UpstreamTimeouts,
+    streaming: boolean,
+    clientSignal?: AbortSignal,
+): UpstreamGuard {
+    const controller = new AbortController();
+    let expired: TimeoutPhase | null = null;
+    let clientClosed = false;
+    let phaseTimer: ReturnType<typeof setTimeout> | undefined;
+    let totalTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const limits: Record<TimeoutPhase, number> = {
+        connect: streaming ? timeouts.connectMs : Math.max(timeouts.connectMs, timeouts.firstTokenMs),
+        first_token: timeouts.firstTokenMs,
+        idle: timeouts.idleMs,
+        total: timeouts.totalMs,
+    };
+
+    const expire = (phase: TimeoutPhase) => {
+        if (controller.signal.aborted) return;
+        expired = phase;
+        controller.abort(new Error(`${phase} timeout after ${limits[phase]}ms`));
+    };
+
+    const onClientClose = () => {
+        if (controller.signal.aborted) return;
+        clientClosed = true;
+        controller.abort(new Error("client disconnected"));
+    };
+
+    const arm = (phase: Exclude<TimeoutPhase, "total"> | null) => {
+        clearTimeout(phaseTimer);
+        phaseTimer = undefined;
+        if (phase && limits[phase] > 0 && !controller.signal.aborted) {
+            phaseTimer = setTimeout(() => expire(phase), limits[phase]);
+        }
+    };
+
+    const dispose = () => {
+        clearTimeout(phaseTimer);
+        clearTimeout(totalTimer);
+        clientSignal?.removeEventListener("abort", onClientClose);
+    };
+
+    if (clientSignal?.aborted) {
+        onClientClose();
+    } else {
+        clientSignal?.addEventListener("abort", onClientClose, { once: true });
+        if (limits.total > 0) totalTimer = setTimeout(() => expire("total"), limits.total);
+        arm("connect");
+    }
+
+    return {
+        signal: controller.signal,
+        get expired() {
+            return expired;
+        },
+        get clientClosed() {
+            return clientClosed;
+        },
+        arm,
+        dispose,
+    };
+}
@@ -0,0 +1,67 @@
+// ── Cooldown wait queue ─────────────────────────────────────────────
+// Requests that asked to wait (instead of taking an immediate 429) park here
+// until the earliest cooldown on their route expires, then dispatch again.
+// Each provider/model has its own bounded queue; waiters are released in
+// arrival order so the first to queue gets the first retry.
+
+export const MAX_WAIT_HEADER = "x-smart-router-max-wait";
+
+export type WaitResult = "ready" | "full" | "aborted";
+
+type Waiter = { release: () => void };
+
+const queues = new Map<string, Waiter[]>();
+
+/**
+ * Wait in `key`'s queue until `readyAt`. Resolves "full" right away when
+ * `maxDepth` requests are already waiting, "aborted" if the client goes
+ * away first.
+ */
+export function waitForCooldown(
+    key: string,
+    readyAt: number,
+    maxDepth: number,
+    signal: AbortSignal,
+    now = Date.now(),
+): Promise<WaitResult> {
+    const queue = queues.get(key) ?? [];
+    if (queue.length >= maxDepth) return Promise.resolve("full");
+    if (signal.aborted) return Promise.resolve("aborted");
+
+    return new Promise((resolve) => {
+        const leave = (result: WaitResult) => {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", onAbort);
+            const i = queue.indexOf(waiter);
+            if (i !== -1) queue.splice(i, 1);
+            if (queue.length === 0) queues.delete(key);
+            resolve(result);
+        };
+        const onAbort = () => leave("aborted");
+        // Stagger releases by queue position so earlier waiters dispatch first
+        const waiter: Waiter = { release: () => leave("ready") };
+        const delay = Math.max(0, readyAt - now) + queue.length * 10;
+        const timer = setTimeout(() => waiter.release(), delay);
+
+        queue.push(waiter);
+        queues.set(key, queue);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/** Requests currently waiting, keyed by provider/model. */
+export function getQueueDepths(): Record<string, number> {
+    const depths: Record<string, number> = {};
+    for (const [key, queue] of queues) depths[key] = queue.length;
+    return depths;
+}
+
+/**
+ * Client-requested wait budget in ms: the max-wait header or the `max_wait`
+ * body field, both in seconds, capped at `capSeconds`. 0 means don't wait.
+ */
+export function parseMaxWaitMs(header: string | string[] | undefined, bodyValue: unknown, capSeconds: number): number {
+    const raw = typeof header === "string" ? Number(header) : bodyValue;
+    if (typeof raw !== "number" || !Number.isFinite(raw) || raw <= 0) return 0;
+    return Math.min(raw, capSeconds) * 1000;
+}
@@ -0,0 +1,63 @@
+import type { ChatMessage, ContentPart } from "./types.js";
+
+// ── Message content helpers ─────────────────────────────────────────
+// ChatMessage.content is either a plain string or an array of OpenAI
+// content parts (text / image_url). Provider translators and the router
+// use these helpers instead of coercing content with String().
+
+/**
+ * Normalize message content to an array of parts.
+ */
+export function contentToParts(content: ChatMessage["content"]): ContentPart[] {
+    if (content == null) return [];
+    if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+    return content;
+}
+
+/**
+ * Concatenate the text parts of message content, dropping images.
+ */
+export function contentToText(content: ChatMessage["content"]): string {
+    if (content == null) return "";
+    if (typeof content === "string") return content;
+    return content
+        .filter((p) => p.type === "text")
+        .map((p) => (p.type === "text" ? p.text : ""))
+        .join("");
+}
+
+/**
+ * True when any message carries an image part.
+ */
+export function hasImageContent(messages: ChatMessage[]): boolean {
+    return messages.some(
+        (m) => Array.isArray(m.content) && m.content.some((p) => p.type === "image_url")
+    );
+}
+
+/**
+ * Split a base64 `data:` URL into mime type and payload. Returns null for
+ * remote (http/https) URLs.
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+    const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(url);
+    if (!match) return null;
+    return { mimeType: match[1] || "image/png", data: match[2] };
+}
+
+/**
+ * Best-effort image mime type for a remote URL, based on its extension.
+ */
+export function guessImageMimeType(url: string): string {
+    const ext = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(url)?.[1]?.toLowerCase();
+    switch (ext) {
+        case "png":
+            return "image/png";
+        case "gif":
+            return "image/gif";
+        case "webp":
+            return "image/webp";
+        default:
+            return "image/jpeg";
+    }
+}
@@ -1,28 +1,75 @@
+import { format } from "node:util";
+import { currentClientRequestId, currentRequestId } from "./request-context.js";
+
 const LEVELS = { debug: 0, info: 1, warn: 2, error: 3 } as const;
 type Level = keyof typeof LEVELS;
 
+/** "text": colored lines for a terminal; "json": one record per line for log shippers */
+export type LogFormat = "text" | "json";
+
+/** Extra structured fields; only emitted in JSON format */
+export type LogFields = Record<string, unknown>;
+
 let currentLevel: Level = "info";
+let currentFormat: LogFormat = process.env.SMART_ROUTER_LOG_FORMAT === "json" ? "json" : "text";
 
 export function setLogLevel(level: Level) {
     currentLevel = level;
 }
 
+export function setLogFormat(format: LogFormat) {
+    currentFormat = format;
+}
+
 function timestamp() {
     return new Date().toISOString().slice(11, 23);
 }
 
-function log(level: Level, prefix: string, ...args: unknown[]) {
+const ANSI_ESCAPES = /\x1b\[[0-9;]*m/g;
+
+function log(
+    component: string,
+    level: Level,
+    prefix: string,
+    args: unknown[],
+    fields?: LogFields
+) {
     if (LEVELS[level] < LEVELS[currentLevel]) return;
+
+    if (currentFormat === "json") {
+        console.log(
+            JSON.stringify({
+                timestamp: new Date().toISOString(),
+                level,
+                component,
+                requestId: currentRequestId(),
+                clientRequestId: currentClientRequestId(),
+                message: format(...args).replace(ANSI_ESCAPES, "").trim(),
+                ...fields,
+            })
+        );
+        return;
+    }
+
     const tag = `\x1b[90m${timestamp()}\x1b[0m ${prefix}`;
     console.log(tag, ...args);
 }
 
-export const logger = {
-    debug: (...args: unknown[]) => log("debug", "\x1b[90m[DBG]\x1b[0m", ...args),
-    info: (...args: unknown[]) => log("info", "\x1b[36m[INF]\x1b[0m", ...args),
-    warn: (...args: unknown[]) => log("warn", "\x1b[33m[WRN]\x1b[0m", ...args),
-    error: (...args: unknown[]) => log("error", "\x1b[31m[ERR]\x1b[0m", ...args),
-    ok: (...args: unknown[]) => log("info", "\x1b[32m[OK]\x1b[0m", ...args),
-    route: (...args: unknown[]) => log("info", "\x1b[35m[RTE]\x1b[0m", ...args),
-    audit: (...args: unknown[]) => log("info", "\x1b[34m[AUD]\x1b[0m", ...args),
-};
+/** Logger whose records carry `component` (e.g. "proxy", "auth") in JSON format. */
+export function createLogger(component: string) {
+    return {
+        debug: (...args: unknown[]) => log(component, "debug", "\x1b[90m[DBG]\x1b[0m", args),
+        info: (...args: unknown[]) => log(component, "info", "\x1b[36m[INF]\x1b[0m", args),
+        warn: (...args: unknown[]) => log(component, "warn", "\x1b[33m[WRN]\x1b[0m", args),
+        error: (...args: unknown[]) => log(component, "error", "\x1b[31m[ERR]\x1b[0m", args),
+        ok: (...args: unknown[]) => log(component, "info", "\x1b[32m[OK]\x1b[0m", args),
+        route: (...args: unknown[]) =>
+            log(component, "info", "\x1b[35m[RTE]\x1b[0m", args, { event: "route" }),
+        audit: (message: string, fields: LogFields = {}) =>
+            log(component, "info", "\x1b[34m[AUD]\x1b[0m", [message], { event: "audit", ...fields }),
+    };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+export const logger = createLogger("app");
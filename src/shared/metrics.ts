@@ -0,0 +1,228 @@
+import { createHash } from "node:crypto";
+import type { FailureReason, RequestStats } from "./types.js";
+
+// ── Prometheus metrics ──────────────────────────────────────────────
+// A small in-process registry rendered in the Prometheus text exposition
+// format (version 0.0.4) by GET /metrics. Request metrics are fed by
+// recordRequest, profile failures by markProfileFailure; profile state
+// gauges are filled from the auth store at scrape time. /metrics is not
+// authenticated, so profiles are labelled by a hash of their id (ids are
+// usually account emails), not the id itself.
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+    const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+    return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels));
+}
+
+function formatValue(n: number): string {
+    if (n === Infinity) return "+Inf";
+    if (n === -Infinity) return "-Inf";
+    return Number.isNaN(n) ? "NaN" : String(n);
+}
+
+abstract class Metric {
+    constructor(readonly name: string, readonly help: string, readonly type: string) { }
+
+    protected abstract samples(): string[];
+
+    render(): string {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+    }
+}
+
+class Counter extends Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, "counter");
+    }
+
+    inc(labels: Labels, by = 1): void {
+        if (!(by > 0)) return;
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += by;
+        this.values.set(key, entry);
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map((e) => `${this.name}${formatLabels(e.labels)} ${formatValue(e.value)}`);
+    }
+}
+
+class Gauge extends Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, "gauge");
+    }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), { labels, value });
+    }
+
+    /** Drop all series, e.g. before refilling from a snapshot. */
+    reset(): void {
+        this.values.clear();
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map((e) => `${this.name}${formatLabels(e.labels)} ${formatValue(e.value)}`);
+    }
+}
+
+class Histogram extends Metric {
+    private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(name: string, help: string, private buckets: number[]) {
+        super(name, help, "histogram");
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let s = this.series.get(key);
+        if (!s) {
+            s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, s);
+        }
+        this.buckets.forEach((le, i) => {
+            if (value <= le) s!.counts[i]++;
+        });
+        s.sum += value;
+        s.count++;
+    }
+
+    protected samples(): string[] {
+        const lines: string[] = [];
+        for (const s of this.series.values()) {
+            this.buckets.forEach((le, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: formatValue(le) })} ${s.counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+            lines.push(`${this.name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(s.labels)} ${s.count}`);
+        }
+        return lines;
+    }
+}
+
+// ── Metric definitions ──────────────────────────────────────────────
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const requestsTotal = new Counter(
+    "smart_router_requests_total",
+    "Upstream attempts by provider, model, tier, status (success/error/cancelled) and failure reason.",
+);
+const requestDuration = new Histogram(
+    "smart_router_request_duration_seconds",
+    "Upstream attempt latency in seconds.",
+    LATENCY_BUCKETS,
+);
+const timeToFirstToken = new Histogram(
+    "smart_router_time_to_first_token_seconds",
+    "Time from sending a streaming request to its first content delta, in seconds.",
+    LATENCY_BUCKETS,
+);
+const tokensTotal = new Counter(
+    "smart_router_tokens_total",
+    "Tokens processed by provider, model and direction (prompt/completion).",
+);
+const costTotal = new Counter(
+    "smart_router_cost_usd_total",
+    "Estimated spend in USD by provider and model.",
+);
+const profileFailures = new Counter(
+    "smart_router_profile_failures_total",
+    "Failures charged to an auth profile, by reason.",
+);
+const profileState = new Gauge(
+    "smart_router_profile_state",
+    "1 for the profile's current state (ACTIVE/COOLDOWN/DISABLED), 0 for the others.",
+);
+const profileCooldown = new Gauge(
+    "smart_router_profile_cooldown_seconds",
+    "Seconds until the profile's cooldown ends (0 when not cooling down).",
+);
+
+const registry: Metric[] = [
+    requestsTotal,
+    requestDuration,
+    timeToFirstToken,
+    tokensTotal,
+    costTotal,
+    profileFailures,
+    profileState,
+    profileCooldown,
+];
+
+// ── Feeds ───────────────────────────────────────────────────────────
+
+/** Count a finished upstream attempt (called from recordRequest). */
+export function observeRequest(req: RequestStats): void {
+    const status = req.cancelled ? "cancelled" : req.success ? "success" : "error";
+    const base = { provider: req.provider, model: req.model, tier: req.tier || "unknown" };
+
+    requestsTotal.inc({
+        ...base,
+        status,
+        reason: req.success ? "" : req.failureReason ?? "unknown",
+    });
+    if (req.cancelled) return;
+
+    requestDuration.observe(base, req.latencyMs / 1000);
+    if (req.firstTokenMs !== undefined) {
+        timeToFirstToken.observe(base, req.firstTokenMs / 1000);
+    }
+
+    const series = { provider: req.provider, model: req.model };
+    tokensTotal.inc({ ...series, direction: "prompt" }, req.promptTokens);
+    tokensTotal.inc({ ...series, direction: "completion" }, req.completionTokens);
+    costTotal.inc(series, req.actualCostUsd ?? req.estimatedCostUsd ?? 0);
+}
+
+/** The `profile` label: first 12 hex chars of sha256(profileId). */
+export function profileLabel(profileId: string): string {
+    return createHash("sha256").update(profileId).digest("hex").slice(0, 12);
+}
+
+/** Count a failure charged to a profile (called from markProfileFailure). */
+export function observeProfileFailure(provider: string, profileId: string, reason: FailureReason): void {
+    profileFailures.inc({ provider, profile: profileLabel(profileId), reason });
+}
+
+export type ProfileSnapshot = {
+    provider: string;
+    profileId: string;
+    state: "ACTIVE" | "COOLDOWN" | "DISABLED";
+    cooldownSeconds: number;
+};
+
+/** Replace the profile gauges with the current state of every profile. */
+export function setProfileSnapshot(profiles: ProfileSnapshot[]): void {
+    profileState.reset();
+    profileCooldown.reset();
+    for (const p of profiles) {
+        const profile = profileLabel(p.profileId);
+        for (const state of ["ACTIVE", "COOLDOWN", "DISABLED"] as const) {
+            profileState.set({ provider: p.provider, profile, state }, p.state === state ? 1 : 0);
+        }
+        profileCooldown.set({ provider: p.provider, profile }, p.cooldownSeconds);
+    }
+}
+
+export function renderMetrics(): string {
+    return registry.map((m) => m.render()).join("\n\n") + "\n";
+}
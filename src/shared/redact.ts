@@ -0,0 +1,41 @@
+// ── Payload redaction ───────────────────────────────────────────────
+// Masks credentials in captured payloads before they are stored. Only
+// string values are rewritten, so the payload stays valid JSON whatever
+// the patterns match.
+
+export const REDACTED = "[REDACTED]";
+
+/** Built-in detectors for credentials that commonly end up in prompts */
+export const SECRET_PATTERNS: RegExp[] = [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    /\bsk-[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic, smart-router client keys
+    /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API keys
+    /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, // AWS access key IDs
+    /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+    /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack tokens
+    /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, // JWTs
+    /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/gi,
+];
+
+export type Redactor = (text: string) => string;
+
+/** Redactor for the built-in detectors (when `secrets`) plus `patterns`. */
+export function createRedactor(patterns: string[], secrets = true): Redactor {
+    const rules = [
+        ...(secrets ? SECRET_PATTERNS : []),
+        ...patterns.map((p) => new RegExp(p, "g")),
+    ];
+    return (text) => rules.reduce((out, rule) => out.replace(rule, REDACTED), text);
+}
+
+/** Copy of `value` with every string value passed through `redact`. */
+export function redactValue<T>(value: T, redact: Redactor): T {
+    if (typeof value === "string") return redact(value) as T;
+    if (Array.isArray(value)) return value.map((v) => redactValue(v, redact)) as T;
+    if (value && typeof value === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(value)) out[k] = redactValue(v, redact);
+        return out as T;
+    }
+    return value;
+}
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+// ── Request correlation ─────────────────────────────────────────────
+// Every HTTP request runs with a server-generated id that log records,
+// stats rows and captures are keyed by, echoed to the client so a
+// client-side error can be matched to the server-side log lines. A sane
+// incoming X-Request-Id is kept alongside it for correlation only: it is
+// the client's to choose, so it is never used as a storage key.
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+type RequestContext = { requestId: string; clientRequestId?: string };
+
+const context = new AsyncLocalStorage<RequestContext>();
+
+/** A fresh id for a request. */
+export function newRequestId(): string {
+    return randomUUID();
+}
+
+/** The caller's X-Request-Id when usable, otherwise undefined. */
+export function resolveClientRequestId(header: string | string[] | undefined): string | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+    return value && VALID_REQUEST_ID.test(value) ? value : undefined;
+}
+
+export function runWithRequestId<T>(requestId: string, fn: () => T, clientRequestId?: string): T {
+    return context.run({ requestId, clientRequestId }, fn);
+}
+
+/** Id of the request being handled, if any. */
+export function currentRequestId(): string | undefined {
+    return context.getStore()?.requestId;
+}
+
+/** The X-Request-Id the client sent for the request being handled, if any. */
+export function currentClientRequestId(): string | undefined {
+    return context.getStore()?.clientRequestId;
+}
@@ -0,0 +1,292 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("tracing");
+
+// ── Tracing ─────────────────────────────────────────────────────────
+// Minimal OpenTelemetry-compatible tracer: spans nest through
+// AsyncLocalStorage, incoming W3C traceparent headers become the parent of
+// the request span, and finished spans are batched to an OTLP/HTTP (JSON)
+// collector. Configured with the standard OTEL_* environment variables;
+// without an endpoint every span is a no-op.
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export type SpanContext = {
+    traceId: string;
+    spanId: string;
+    sampled: boolean;
+};
+
+export interface Span {
+    readonly context: SpanContext | null;
+    setAttributes(attributes: SpanAttributes): void;
+    addEvent(name: string, attributes?: SpanAttributes): void;
+    /** Mark the span failed; `err.reason` becomes smart_router.failure_reason */
+    recordError(err: unknown): void;
+    end(): void;
+}
+
+export type SpanOptions = {
+    kind?: SpanKind;
+    attributes?: SpanAttributes;
+    /** Remote parent (from traceparent); defaults to the active span */
+    parent?: SpanContext | null;
+};
+
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || "openroutex";
+const MAX_BATCH = 512;
+const MAX_QUEUE = 2048;
+const EXPORT_INTERVAL_MS = 5_000;
+const EXPORT_TIMEOUT_MS = 10_000;
+
+const KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+type FinishedSpan = {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    events: Array<{ timeUnixNano: string; name: string; attributes: OtlpAttribute[] }>;
+    status: { code: number; message?: string };
+};
+
+type OtlpAttribute = { key: string; value: Record<string, string | number | boolean> };
+
+const active = new AsyncLocalStorage<Span>();
+const queue: FinishedSpan[] = [];
+let exportTimer: NodeJS.Timeout | null = null;
+let exportFailed = false;
+
+// ── Configuration ───────────────────────────────────────────────────
+
+/** OTLP traces URL from OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_ENDPOINT */
+function tracesEndpoint(): string | null {
+    const traces = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+    if (traces) return traces;
+    const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+    return base ? `${base.replace(/\/+$/, "")}/v1/traces` : null;
+}
+
+/** "k1=v1,k2=v2" from OTEL_EXPORTER_OTLP_HEADERS */
+function exportHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    for (const pair of (process.env.OTEL_EXPORTER_OTLP_HEADERS ?? "").split(",")) {
+        const eq = pair.indexOf("=");
+        if (eq > 0) headers[pair.slice(0, eq).trim()] = decodeURIComponent(pair.slice(eq + 1).trim());
+    }
+    return headers;
+}
+
+export function isTracingEnabled(): boolean {
+    return tracesEndpoint() !== null && process.env.OTEL_SDK_DISABLED !== "true";
+}
+
+// ── W3C trace context ───────────────────────────────────────────────
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** Parse a W3C traceparent header; null when absent or malformed. */
+export function parseTraceparent(header: string | string[] | undefined): SpanContext | null {
+    const value = Array.isArray(header) ? header[0] : header;
+    const match = value?.trim().toLowerCase().match(TRACEPARENT);
+    if (!match) return null;
+    const [, version, traceId, spanId, flags] = match;
+    if (version === "ff" || /^0+$/.test(traceId!) || /^0+$/.test(spanId!)) return null;
+    return { traceId: traceId!, spanId: spanId!, sampled: (parseInt(flags!, 16) & 1) === 1 };
+}
+
+// ── Spans ───────────────────────────────────────────────────────────
+
+function nowNano(): string {
+    return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6)).toString();
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): OtlpAttribute[] {
+    const out: OtlpAttribute[] = [];
+    for (const [key, v] of Object.entries(attributes)) {
+        if (v === undefined) continue;
+        if (typeof v === "boolean") out.push({ key, value: { boolValue: v } });
+        else if (typeof v === "string") out.push({ key, value: { stringValue: v } });
+        else if (Number.isInteger(v)) out.push({ key, value: { intValue: String(v) } });
+        else out.push({ key, value: { doubleValue: v } });
+    }
+    return out;
+}
+
+const NOOP_SPAN: Span = {
+    context: null,
+    setAttributes() { },
+    addEvent() { },
+    recordError() { },
+    end() { },
+};
+
+class RecordingSpan implements Span {
+    readonly context: SpanContext;
+    private attributes: SpanAttributes;
+    private events: FinishedSpan["events"] = [];
+    private status: FinishedSpan["status"] = { code: 0 };
+    private readonly start = nowNano();
+    private ended = false;
+
+    constructor(
+        private readonly name: string,
+        private readonly kind: SpanKind,
+        private readonly parentSpanId: string | undefined,
+        traceId: string,
+        attributes: SpanAttributes,
+    ) {
+        this.context = { traceId, spanId: randomBytes(8).toString("hex"), sampled: true };
+        this.attributes = { ...attributes };
+    }
+
+    setAttributes(attributes: SpanAttributes): void {
+        Object.assign(this.attributes, attributes);
+    }
+
+    addEvent(name: string, attributes: SpanAttributes = {}): void {
+        this.events.push({ timeUnixNano: nowNano(), name, attributes: toOtlpAttributes(attributes) });
+    }
+
+    recordError(err: unknown): void {
+        const e = err as any;
+        const message = e?.message ?? String(err);
+        this.status = { code: 2, message };
+        if (e?.reason) this.attributes["smart_router.failure_reason"] = String(e.reason);
+        this.addEvent("exception", { "exception.message": message });
+    }
+
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        enqueue({
+            traceId: this.context.traceId,
+            spanId: this.context.spanId,
+            parentSpanId: this.parentSpanId,
+            name: this.name,
+            kind: KIND_CODES[this.kind],
+            startTimeUnixNano: this.start,
+            endTimeUnixNano: nowNano(),
+            attributes: toOtlpAttributes(this.attributes),
+            events: this.events,
+            status: this.status,
+        });
+    }
+}
+
+/** The span of the code currently running, if any. */
+export function currentSpan(): Span | undefined {
+    return active.getStore();
+}
+
+/**
+ * Start a span under `options.parent` or the active span. The caller ends
+ * it; use withSpan to also make it the active span for nested work.
+ */
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+    if (!isTracingEnabled()) return NOOP_SPAN;
+
+    const parent = options.parent !== undefined ? options.parent : active.getStore()?.context ?? null;
+    // A caller that chose not to sample keeps the whole trace unrecorded;
+    // the context still propagates so nested spans don't start new traces
+    if (parent && !parent.sampled) return { ...NOOP_SPAN, context: parent };
+
+    return new RecordingSpan(
+        name,
+        options.kind ?? "internal",
+        parent?.spanId,
+        parent?.traceId ?? randomBytes(16).toString("hex"),
+        options.attributes ?? {},
+    );
+}
+
+/**
+ * Run `fn` inside a new active span, ending it when `fn` returns or its
+ * promise settles. Errors are recorded on the span and rethrown.
+ */
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => T): T {
+    const span = startSpan(name, options);
+    if (!span.context) return fn(span);
+
+    return active.run(span, () => {
+        let result: T;
+        try {
+            result = fn(span);
+        } catch (err) {
+            span.recordError(err);
+            span.end();
+            throw err;
+        }
+        if (result instanceof Promise) {
+            return result.then(
+                (value) => {
+                    span.end();
+                    return value;
+                },
+                (err) => {
+                    span.recordError(err);
+                    span.end();
+                    throw err;
+                },
+            ) as T;
+        }
+        span.end();
+        return result;
+    });
+}
+
+// ── OTLP export ─────────────────────────────────────────────────────
+
+function enqueue(span: FinishedSpan): void {
+    if (queue.length >= MAX_QUEUE) queue.shift();
+    queue.push(span);
+    if (queue.length >= MAX_BATCH) {
+        void flushTraces();
+    } else if (!exportTimer) {
+        exportTimer = setTimeout(() => void flushTraces(), EXPORT_INTERVAL_MS);
+        exportTimer.unref();
+    }
+}
+
+/** Send queued spans to the collector. Export failures drop the batch. */
+export async function flushTraces(): Promise<void> {
+    if (exportTimer) {
+        clearTimeout(exportTimer);
+        exportTimer = null;
+    }
+    const endpoint = tracesEndpoint();
+    if (!endpoint || queue.length === 0) return;
+
+    const spans = queue.splice(0, queue.length);
+    const payload = {
+        resourceSpans: [
+            {
+                resource: { attributes: toOtlpAttributes({ "service.name": SERVICE_NAME }) },
+                scopeSpans: [{ scope: { name: "openroutex" }, spans }],
+            },
+        ],
+    };
+
+    try {
+        const res = await fetch(endpoint, {
+            method: "POST",
+            headers: exportHeaders(),
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+        });
+        if (!res.ok) throw new Error(`${res.status} ${await res.text().catch(() => "")}`.trim());
+        exportFailed = false;
+    } catch (err: any) {
+        // Warn once per outage rather than on every batch
+        if (!exportFailed) logger.warn(`Trace export to ${endpoint} failed: ${err?.message ?? err}`);
+        exportFailed = true;
+    }
+}
@@ -1,6 +1,6 @@
 // ── Credential types ────────────────────────────────────────────────
 
-export type OAuthCredential = {
+export type OAuthCredential = ProfileSettings & {
     type: "oauth";
     provider: string;
     access: string;
@@ -12,7 +12,7 @@ export type OAuthCredential = {
     resourceUrl?: string;
 };
 
-export type ApiKeyCredential = {
+export type ApiKeyCredential = ProfileSettings & {
     type: "api_key";
     provider: string;
     key: string;
@@ -20,7 +20,7 @@ export type ApiKeyCredential = {
     metadata?: Record<string, string>;
 };
 
-export type TokenCredential = {
+export type TokenCredential = ProfileSettings & {
     type: "token";
     provider: string;
     token: string;
@@ -30,6 +30,28 @@ export type TokenCredential = {
 
 export type ProfileCredential = OAuthCredential | ApiKeyCredential | TokenCredential;
 
+/** Per-profile selection settings, kept with the credential in the auth store */
+export type ProfileSettings = {
+    /** Overrides of the provider's rate limits (e.g. paid tiers) */
+    rateLimits?: RateLimits;
+    /** Share of traffic under the "weighted" strategy (default 1) */
+    weight?: number;
+    /** Tier under the "priority" strategy: lower is used first (default 0) */
+    priority?: number;
+};
+
+/** How pickNextProfile orders a provider's usable profiles */
+export type SelectionStrategy = "least-in-flight" | "lru" | "weighted" | "least-errors" | "priority";
+
+export type RateLimits = {
+    requestsPerMinute?: number;
+    requestsPerDay?: number;
+    tokensPerMinute?: number;
+    tokensPerDay?: number;
+    /** Requests allowed in flight on one profile at a time */
+    maxConcurrent?: number;
+};
+
 // ── Usage tracking ──────────────────────────────────────────────────
 
 export type FailureReason = "auth" | "rate_limit" | "billing" | "timeout" | "format" | "model_not_found" | "unknown";
@@ -44,10 +66,17 @@ export type ProfileUsageStats = {
     errorCount?: number;
     lastFailureAt?: number;
     failureReason?: FailureReason;
-    rateLimitStats?: {
-        windowStart: number;
-        requestCount: number;
-    };
+    /** Rolling one-minute window */
+    rateLimitStats?: RateLimitWindow;
+    /** Rolling 24-hour window */
+    dailyStats?: RateLimitWindow;
+};
+
+export type RateLimitWindow = {
+    windowStart: number;
+    requestCount: number;
+    /** Prompt + completion tokens of completed requests */
+    tokenCount?: number;
 };
 
 // ── Auth store ──────────────────────────────────────────────────────
@@ -56,14 +85,48 @@ export type AuthProfileStore = {
     version: number;
     profiles: Record<string, ProfileCredential>;
     usageStats: Record<string, ProfileUsageStats>;
+    /** Selection strategy per provider; unset means "least-in-flight" */
+    strategies?: Record<string, SelectionStrategy>;
 };
 
 // ── Chat completion types ───────────────────────────────────────────
 
+export type ToolCall = {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+};
+
+export type ToolDefinition = {
+    type: "function";
+    function: {
+        name: string;
+        description?: string;
+        parameters?: Record<string, unknown>;
+    };
+};
+
+export type ToolChoice =
+    | "none"
+    | "auto"
+    | "required"
+    | { type: "function"; function: { name: string } };
+
+export type TextContentPart = { type: "text"; text: string };
+
+export type ImageContentPart = {
+    type: "image_url";
+    image_url: { url: string; detail?: "auto" | "low" | "high" };
+};
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
 export type ChatMessage = {
     role: "system" | "user" | "assistant" | "tool";
-    content: string | null;
+    content: string | ContentPart[] | null;
     name?: string;
+    tool_calls?: ToolCall[];
+    tool_call_id?: string;
 };
 
 export type ChatCompletionRequest = {
@@ -76,6 +139,8 @@ export type ChatCompletionRequest = {
     frequency_penalty?: number;
     presence_penalty?: number;
     stop?: string | string[];
+    tools?: ToolDefinition[];
+    tool_choice?: ToolChoice;
     [key: string]: unknown;
 };
 
@@ -129,16 +194,17 @@ export type Provider = {
     supportsStreaming?: boolean;
 
     isOpenAICompatible?: boolean;
-    rateLimits?: {
-        requestsPerMinute?: number;
-        requestsPerDay?: number;
-    };
+    rateLimits?: RateLimits;
 };
 
 // ── Stats ───────────────────────────────────────────────────────────
 
 export type RequestStats = {
     timestamp: number;
+    /** Server-generated id of the client request; shared by its attempts */
+    requestId?: string;
+    /** X-Request-Id the client sent, if any; not unique */
+    clientRequestId?: string;
     provider: string;
     model: string;
     realModel?: string; // The actual model used by the provider (after mapping)
@@ -147,10 +213,19 @@ export type RequestStats = {
     tierScore: number;
     task: string;
     latencyMs: number;
+    /** Streaming only: time until the first content delta reached the client */
+    firstTokenMs?: number;
     promptTokens: number;
     completionTokens: number;
     estimatedCostUsd?: number;
     actualCostUsd?: number;
     success: boolean;
     error?: string;
+    failureReason?: FailureReason;
+    /** Set on both attempts of a hedged request */
+    hedge?: HedgeRole;
+    /** Aborted by the router (lost a hedge race), not a provider failure */
+    cancelled?: boolean;
 };
+
+export type HedgeRole = "primary" | "hedge";
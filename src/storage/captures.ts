@@ -0,0 +1,206 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { db } from "./db.js";
+import { getRoutingConfig } from "../router/config-store.js";
+import type { CaptureConfig } from "../router/types.js";
+import { createLogger } from "../shared/logger.js";
+import { createRedactor, redactValue } from "../shared/redact.js";
+
+// ── Payload capture storage ─────────────────────────────────────────
+// Opt-in record of what a client sent and got back, keyed by the
+// server-generated request id (the client's X-Request-Id is kept alongside).
+// Payloads are redacted and size-capped before they are written, to the
+// captures table or to daily JSONL files, and pruned after the retention
+// period.
+
+const logger = createLogger("capture");
+
+const CAPTURE_DIR = join(process.cwd(), "data", "captures");
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** An upstream attempt that failed before (or instead of) the response */
+export type CaptureError = {
+    provider: string;
+    model: string;
+    profileId: string;
+    status?: number;
+    reason?: string;
+    message: string;
+    /** Parsed upstream error body, when it was JSON */
+    upstreamError?: unknown;
+};
+
+export type PayloadCapture = {
+    requestId: string;
+    /** X-Request-Id the client sent, if any */
+    clientRequestId?: string;
+    timestamp: number;
+    /** API key label or prefix; "anonymous" without a key */
+    client: string;
+    /** HTTP status sent to the client */
+    status: number;
+    request: unknown;
+    response: unknown;
+    errors: CaptureError[];
+};
+
+/** A stored capture; fields cut at maxPayloadBytes come back as their (partial) JSON text */
+export type StoredCapture = PayloadCapture & { truncated: boolean };
+
+let lastPrune = 0;
+
+/** Redact, cap and write a capture to the configured sink. */
+export function saveCapture(capture: PayloadCapture, config: CaptureConfig = getRoutingConfig().capture): void {
+    const redact = createRedactor(config.redactPatterns, config.redactSecrets);
+    let truncated = false;
+
+    // JSON text for SQLite, value for JSONL; the truncated text for both once over the cap
+    const field = (value: unknown): { text: string; value: unknown } => {
+        const redacted = redactValue(value ?? null, redact);
+        const text = JSON.stringify(redacted);
+        const bytes = Buffer.from(text, "utf8");
+        if (bytes.length <= config.maxPayloadBytes) return { text, value: redacted };
+        truncated = true;
+        const cut = bytes.subarray(0, config.maxPayloadBytes).toString("utf8");
+        return { text: cut, value: cut };
+    };
+    const request = field(capture.request);
+    const response = field(capture.response);
+    const errors = field(capture.errors);
+
+    if (config.sink === "jsonl") {
+        const line = JSON.stringify({
+            requestId: capture.requestId,
+            clientRequestId: capture.clientRequestId,
+            timestamp: capture.timestamp,
+            client: capture.client,
+            status: capture.status,
+            request: request.value,
+            response: response.value,
+            errors: errors.value,
+            truncated,
+        });
+        appendFileSync(jsonlFileFor(capture.timestamp, config.jsonlMaxFileBytes), line + "\n");
+    } else {
+        db.prepare(`
+            INSERT INTO captures (request_id, client_request_id, timestamp, client, status, request, response, errors, truncated)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            capture.requestId,
+            capture.clientRequestId ?? null,
+            capture.timestamp,
+            capture.client,
+            capture.status,
+            request.text,
+            response.text,
+            errors.text,
+            truncated ? 1 : 0
+        );
+    }
+
+    if (capture.timestamp - lastPrune >= PRUNE_INTERVAL_MS) {
+        lastPrune = capture.timestamp;
+        pruneCaptures(capture.timestamp, config);
+    }
+}
+
+/** The capture for a request id from either sink, or null. */
+export function getCapture(requestId: string): StoredCapture | null {
+    const row = db.prepare("SELECT * FROM captures WHERE request_id = ?").get(requestId) as any;
+    if (row) {
+        return {
+            requestId: row.request_id,
+            clientRequestId: row.client_request_id ?? undefined,
+            timestamp: row.timestamp,
+            client: row.client,
+            status: row.status,
+            request: parseStored(row.request),
+            response: parseStored(row.response),
+            errors: parseStored(row.errors) as CaptureError[],
+            truncated: row.truncated === 1,
+        };
+    }
+
+    // Newest files first; a capture lives in the file of the day it was taken
+    for (const file of listJsonlFiles().reverse()) {
+        const text = readFileSync(join(CAPTURE_DIR, file), "utf8");
+        if (!text.includes(requestId)) continue;
+        for (const line of text.split("\n")) {
+            if (!line.includes(requestId)) continue;
+            try {
+                const record = JSON.parse(line) as StoredCapture;
+                if (record.requestId === requestId) return record;
+            } catch { }
+        }
+    }
+    return null;
+}
+
+/** Delete captures older than the retention period; returns how many rows/files went. */
+export function pruneCaptures(now = Date.now(), config: CaptureConfig = getRoutingConfig().capture): number {
+    const cutoff = now - config.retentionDays * DAY_MS;
+    let removed = db.prepare("DELETE FROM captures WHERE timestamp < ?").run(cutoff).changes;
+
+    for (const file of listJsonlFiles()) {
+        const dayStart = Date.parse(file.slice(0, 10));
+        if (!Number.isNaN(dayStart) && dayStart + DAY_MS <= cutoff) {
+            unlinkSync(join(CAPTURE_DIR, file));
+            removed++;
+        }
+    }
+    return removed;
+}
+
+/**
+ * Prune now and every `intervalMs`, so old payloads go even when capture is
+ * switched off or traffic stops; returns a stop function.
+ */
+export function startCapturePruner(intervalMs = PRUNE_INTERVAL_MS): () => void {
+    const prune = () => {
+        try {
+            const removed = pruneCaptures();
+            if (removed > 0) logger.info(`Pruned ${removed} expired payload capture(s)`);
+        } catch (err: any) {
+            logger.warn(`Capture pruning failed: ${err?.message ?? err}`);
+        }
+    };
+    prune();
+    const timer = setInterval(prune, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+}
+
+function parseStored(text: string | null): unknown {
+    if (text === null) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+// ── JSONL rotation ──────────────────────────────────────────────────
+
+/** YYYY-MM-DD.jsonl, rolling over to YYYY-MM-DD.1.jsonl, .2, ... past maxBytes */
+function jsonlFileFor(timestamp: number, maxBytes: number): string {
+    if (!existsSync(CAPTURE_DIR)) mkdirSync(CAPTURE_DIR, { recursive: true });
+    const day = new Date(timestamp).toISOString().slice(0, 10);
+    for (let n = 0; ; n++) {
+        const file = join(CAPTURE_DIR, n === 0 ? `${day}.jsonl` : `${day}.${n}.jsonl`);
+        if (!existsSync(file) || statSync(file).size < maxBytes) return file;
+    }
+}
+
+/** Capture files, oldest first */
+function listJsonlFiles(): string[] {
+    if (!existsSync(CAPTURE_DIR)) return [];
+    const order = (f: string) => [f.slice(0, 10), Number(f.split(".")[1]) || 0] as const;
+    return readdirSync(CAPTURE_DIR)
+        .filter((f) => /^\d{4}-\d{2}-\d{2}(\.\d+)?\.jsonl$/.test(f))
+        .sort((a, b) => {
+            const [dayA, nA] = order(a);
+            const [dayB, nB] = order(b);
+            return dayA === dayB ? nA - nB : dayA < dayB ? -1 : 1;
+        });
+}
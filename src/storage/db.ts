@@ -46,7 +46,51 @@ export function initDB() {
         is_active INTEGER DEFAULT 1
     );
     CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(is_active);
+
+    CREATE TABLE IF NOT EXISTS captures (
+        request_id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        client TEXT,
+        status INTEGER,
+        request TEXT,
+        response TEXT,
+        errors TEXT,
+        truncated INTEGER DEFAULT 0 -- 0 or 1
+    );
+    CREATE INDEX IF NOT EXISTS idx_captures_timestamp ON captures(timestamp);
   `);
+
+    // Columns added after the initial schema
+    const columns = (db.prepare("PRAGMA table_info(requests)").all() as { name: string }[])
+        .map((c) => c.name);
+    if (!columns.includes("hedge")) {
+        db.exec("ALTER TABLE requests ADD COLUMN hedge TEXT");
+    }
+    if (!columns.includes("request_id")) {
+        db.exec("ALTER TABLE requests ADD COLUMN request_id TEXT");
+    }
+    db.exec("CREATE INDEX IF NOT EXISTS idx_request_id ON requests(request_id)");
+    if (!columns.includes("first_token_ms")) {
+        // Streamed requests only; NULL for JSON responses
+        db.exec("ALTER TABLE requests ADD COLUMN first_token_ms INTEGER");
+    }
+    if (!columns.includes("client_request_id")) {
+        // The client's X-Request-Id; request_id is always server-generated
+        db.exec("ALTER TABLE requests ADD COLUMN client_request_id TEXT");
+    }
+
+    const keyColumns = (db.prepare("PRAGMA table_info(api_keys)").all() as { name: string }[])
+        .map((c) => c.name);
+    if (!keyColumns.includes("capture")) {
+        // NULL: follow the capture.enabled default; 0/1: per-key override
+        db.exec("ALTER TABLE api_keys ADD COLUMN capture INTEGER");
+    }
+
+    const captureColumns = (db.prepare("PRAGMA table_info(captures)").all() as { name: string }[])
+        .map((c) => c.name);
+    if (!captureColumns.includes("client_request_id")) {
+        db.exec("ALTER TABLE captures ADD COLUMN client_request_id TEXT");
+    }
 }
 
 // Run initialization immediately
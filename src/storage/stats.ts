@@ -1,5 +1,9 @@
 import { db } from "./db.js";
 import type { RequestStats } from "../shared/types.js";
+import { recordCircuitOutcome } from "../router/circuit-breaker.js";
+import { observeRequest } from "../shared/metrics.js";
+import { withSpan } from "../shared/tracing.js";
+import { currentClientRequestId, currentRequestId } from "../shared/request-context.js";
 
 type StatsSummary = {
     totalRequests: number;
@@ -10,26 +14,68 @@ type StatsSummary = {
 };
 
 export function recordRequest(req: RequestStats): void {
-    const insert = db.prepare(`
-        INSERT INTO requests (
-            timestamp, provider, model, profile_id, tier, tier_score, task,
-            latency_ms, prompt_tokens, completion_tokens, success, error_msg
-        ) VALUES (
-            @timestamp, @provider, @model, @profileId, @tier, @tierScore, @task,
-            @latencyMs, @promptTokens, @completionTokens, @success, @error
-        )
-    `);
+    const attributes = {
+        "smart_router.provider": req.provider,
+        "smart_router.success": req.success,
+        "smart_router.failure_reason": req.failureReason,
+    };
+    withSpan("stats.record", { attributes }, () => {
+        const insert = db.prepare(`
+            INSERT INTO requests (
+                timestamp, provider, model, profile_id, tier, tier_score, task,
+                latency_ms, first_token_ms, prompt_tokens, completion_tokens, success, error_msg, hedge, request_id,
+                client_request_id
+            ) VALUES (
+                @timestamp, @provider, @model, @profileId, @tier, @tierScore, @task,
+                @latencyMs, @firstTokenMs, @promptTokens, @completionTokens, @success, @error, @hedge, @requestId,
+                @clientRequestId
+            )
+        `);
+
+        insert.run({
+            ...req,
+            success: req.success ? 1 : 0,
+            error: req.error || null,
+            hedge: req.hedge ?? null,
+            firstTokenMs: req.firstTokenMs ?? null,
+            requestId: req.requestId ?? currentRequestId() ?? null,
+            clientRequestId: req.clientRequestId ?? currentClientRequestId() ?? null,
+            tierScore: req.tierScore || 0,
+            tier: req.tier || "unknown",
+            task: req.task || "unknown"
+        });
+        observeRequest(req);
 
-    insert.run({
-        ...req,
-        success: req.success ? 1 : 0,
-        error: req.error || null,
-        tierScore: req.tierScore || 0,
-        tier: req.tier || "unknown",
-        task: req.task || "unknown"
+        if (!req.cancelled) {
+            recordCircuitOutcome(req.provider, req.model, req.success, req.failureReason, req.timestamp);
+        }
     });
 }
 
+/**
+ * Time-to-first-token percentile (0–1) over the most recent successful
+ * requests in a tier, or null when there are fewer than `minSamples` to go
+ * on. Streamed requests count their first token, not the whole stream;
+ * JSON responses (no first_token_ms) count their full latency.
+ */
+export function getFirstTokenPercentile(
+    tier: string,
+    percentile: number,
+    minSamples = 20,
+    sampleSize = 500
+): number | null {
+    const rows = db.prepare(`
+        SELECT COALESCE(first_token_ms, latency_ms) AS ms FROM requests
+        WHERE tier = ? AND success = 1 AND provider != 'router'
+        ORDER BY timestamp DESC
+        LIMIT ?
+    `).all(tier, sampleSize) as { ms: number }[];
+    if (rows.length < minSamples) return null;
+
+    const sorted = rows.map((r) => r.ms).sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(percentile * sorted.length))];
+}
+
 export function getStats(): { requests: RequestStats[] } {
     // Return last 100 requests for the activity log
     const rows = db.prepare(`
@@ -38,7 +84,21 @@ export function getStats(): { requests: RequestStats[] } {
         LIMIT 100
     `).all() as any[];
 
-    const requests: RequestStats[] = rows.map(row => ({
+    return { requests: rows.map(toRequestStats) };
+}
+
+/** Every attempt recorded for a request id, oldest first. */
+export function getRequestAttempts(requestId: string): RequestStats[] {
+    const rows = db.prepare(`
+        SELECT * FROM requests
+        WHERE request_id = ?
+        ORDER BY timestamp ASC, id ASC
+    `).all(requestId) as any[];
+    return rows.map(toRequestStats);
+}
+
+function toRequestStats(row: any): RequestStats {
+    return {
         timestamp: row.timestamp,
         provider: row.provider,
         model: row.model,
@@ -47,13 +107,15 @@ export function getStats(): { requests: RequestStats[] } {
         tierScore: row.tier_score,
         task: row.task,
         latencyMs: row.latency_ms,
+        firstTokenMs: row.first_token_ms ?? undefined,
         promptTokens: row.prompt_tokens,
         completionTokens: row.completion_tokens,
         success: row.success === 1,
-        error: row.error_msg
-    }));
-
-    return { requests };
+        error: row.error_msg,
+        hedge: row.hedge ?? undefined,
+        requestId: row.request_id ?? undefined,
+        clientRequestId: row.client_request_id ?? undefined
+    };
 }
 
 export function getStatsSummary(): StatsSummary {